@@ -14,19 +14,37 @@
  * - Default user placeholders
  */
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, StyleSheet, ViewStyle, ImageStyle } from 'react-native';
 import { AtomicImage } from './AtomicImage';
 import { AtomicText } from './AtomicText';
+import { AtomicIcon } from './AtomicIcon';
+import type { IconName } from './AtomicIcon';
+import { AtomicSkeleton } from './AtomicSkeleton';
+import { AtomicBadge } from './AtomicBadge';
+import type { AtomicBadgeProps } from './AtomicBadge';
+import type { PlaceholderHashType } from './image/types';
+import { getInitials } from './avatar/utils/initials';
+import { getAvatarColors } from './avatar/utils/avatarColors';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
+export type AvatarSource = { uri: string } | number;
+
+export type AvatarStatus = 'online' | 'away' | 'busy' | 'offline';
+
+export type AvatarOverlayPosition = 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
+
 export interface AtomicAvatarProps {
   /** Image source (URI or require) */
-  source?: { uri: string } | number;
+  source?: AvatarSource;
+  /** Sources tried in order when `source` fails to load */
+  fallbackSource?: AvatarSource | AvatarSource[];
+  /** Icon shown when no image loads and there is no name (default: User) */
+  fallbackIcon?: IconName;
   /** User's name for fallback initials */
   name?: string;
   /** Size of the avatar */
@@ -37,6 +55,10 @@ export interface AtomicAvatarProps {
   backgroundColor?: string;
   /** Text color for initials */
   textColor?: string;
+  /** Derive a stable background color from `name` (readable text color is picked automatically) */
+  colorFromName?: boolean;
+  /** Locale used to uppercase initials (e.g. 'tr') */
+  locale?: string;
   /** Border radius (default: circular) */
   borderRadius?: number;
   /** Border width */
@@ -49,6 +71,28 @@ export interface AtomicAvatarProps {
   imageStyle?: ImageStyle | ImageStyle[];
   /** Test ID for testing */
   testID?: string;
+  /** Show a circular skeleton at the avatar size instead of the avatar */
+  loading?: boolean;
+  /** Blurhash (or base64 thumbhash) shown until the image loads */
+  placeholderHash?: string;
+  /** Format of `placeholderHash` (default: blurhash) */
+  placeholderHashType?: PlaceholderHashType;
+  /** Presence dot shown on a corner */
+  status?: AvatarStatus;
+  /** Corner for the presence dot (default: bottom-right) */
+  statusPosition?: AvatarOverlayPosition;
+  /** Spoken status text (default: English status name, e.g. "online") */
+  statusLabel?: string;
+  /** Badge content; numbers and strings render an AtomicBadge, elements render as-is */
+  badge?: React.ReactNode;
+  /** Props forwarded to the AtomicBadge rendered for `badge` */
+  badgeProps?: Omit<AtomicBadgeProps, 'children'>;
+  /** Corner for the badge (default: top-right) */
+  badgePosition?: AvatarOverlayPosition;
+  /** Spoken badge text, appended to the description (e.g. "3 unread messages") */
+  badgeAccessibilityLabel?: string;
+  /** Accessibility label (default: name, status and badge label, e.g. "Jane, online") */
+  accessibilityLabel?: string;
 }
 
 // =============================================================================
@@ -57,36 +101,74 @@ export interface AtomicAvatarProps {
 
 export const AtomicAvatar: React.FC<AtomicAvatarProps> = ({
   source,
+  fallbackSource,
+  fallbackIcon = 'User',
   name,
   size = 'md',
   customSize,
   backgroundColor,
   textColor,
+  colorFromName = false,
+  locale,
   borderRadius,
   borderWidth = 0,
   borderColor,
   style,
   imageStyle,
   testID,
+  loading = false,
+  placeholderHash,
+  placeholderHashType,
+  status,
+  statusPosition = 'bottom-right',
+  statusLabel,
+  badge,
+  badgeProps,
+  badgePosition = 'top-right',
+  badgeAccessibilityLabel,
+  accessibilityLabel,
 }) => {
   const tokens = useAppDesignTokens();
 
+  // Image chain: source first, then each fallback source
+  const sources = useMemo(
+    () => [source, ...(Array.isArray(fallbackSource) ? fallbackSource : [fallbackSource])]
+      .filter((item): item is AvatarSource => item !== undefined && item !== null),
+    [source, fallbackSource]
+  );
+  const sourcesKey = sources.map(getSourceKey).join('|');
+
+  // Index of the source currently shown; past the end means every image failed
+  const [sourceIndex, setSourceIndex] = useState(0);
+  useEffect(() => {
+    setSourceIndex(0);
+  }, [sourcesKey]);
+
+  const currentSource = sources[sourceIndex];
+
   const avatarSize = customSize || tokens.avatarSizes[size];
   const avatarRadius = borderRadius ?? avatarSize / 2;
 
-  // Generate initials from name
-  const getInitials = (name: string): string => {
-    return name
-      .split(' ')
-      .map(word => word.charAt(0))
-      .join('')
-      .toUpperCase()
-      .slice(0, 2);
-  };
+  if (loading) {
+    return (
+      <AtomicSkeleton
+        width={avatarSize}
+        height={avatarSize}
+        borderRadius={avatarRadius}
+        style={style}
+        testID={testID}
+      />
+    );
+  }
+
+  const initials = name ? getInitials(name, { locale }) : '';
+
+  // Name-derived colors (explicit colors still win)
+  const nameColors = colorFromName && name ? getAvatarColors(name, tokens) : undefined;
 
   // Default colors
-  const defaultBackgroundColor = backgroundColor || tokens.colors.primary;
-  const defaultTextColor = textColor || tokens.colors.onPrimary;
+  const defaultBackgroundColor = backgroundColor || nameColors?.backgroundColor || tokens.colors.primary;
+  const defaultTextColor = textColor || nameColors?.textColor || tokens.colors.onPrimary;
   const defaultBorderColor = borderColor || tokens.colors.border;
 
   const avatarStyle: ViewStyle = {
@@ -115,41 +197,182 @@ export const AtomicAvatar: React.FC<AtomicAvatarProps> = ({
     return 24;
   };
 
+  const description = accessibilityLabel ?? [
+    name,
+    status ? statusLabel ?? STATUS_LABELS[status] : undefined,
+    badgeAccessibilityLabel,
+  ].filter(Boolean).join(', ');
+
+  const hasBadge = badge !== undefined && badge !== null && badge !== false;
+  const hasOverlay = !!status || hasBadge;
+
+  // Circular avatars pull overlays in to sit on the rim instead of the bounding box corner
+  const cornerInset = avatarRadius >= avatarSize / 2 ? (avatarSize / 2) * (1 - Math.SQRT1_2) : 0;
+
+  const renderStatus = () => {
+    if (!status) return null;
+
+    const dotSize = Math.max(8, Math.round(avatarSize * 0.25));
+    const ringWidth = Math.max(2, Math.round(avatarSize * 0.04));
+    const offset = cornerInset - dotSize / 2;
+
+    const statusColors: Record<AvatarStatus, string> = {
+      online: tokens.colors.success,
+      away: tokens.colors.warning,
+      busy: tokens.colors.error,
+      offline: tokens.colors.textDisabled,
+    };
+
+    return (
+      <View
+        style={[
+          styles.overlay,
+          getCornerStyle(statusPosition, offset),
+          {
+            width: dotSize,
+            height: dotSize,
+            borderRadius: dotSize / 2,
+            borderWidth: ringWidth,
+            borderColor: tokens.colors.surface,
+            backgroundColor: statusColors[status],
+          },
+        ]}
+        testID={testID ? `${testID}-status` : undefined}
+      />
+    );
+  };
+
+  const renderBadge = () => {
+    if (!hasBadge) return null;
+
+    const offset = cornerInset - Math.round(avatarSize * 0.1);
+
+    return (
+      <View
+        style={[styles.overlay, getCornerStyle(badgePosition, offset)]}
+        testID={testID ? `${testID}-badge` : undefined}
+      >
+        {typeof badge === 'number' || typeof badge === 'string' ? (
+          <AtomicBadge size={getBadgeSize(avatarSize)} variant="error" {...badgeProps}>
+            {badge}
+          </AtomicBadge>
+        ) : (
+          badge
+        )}
+      </View>
+    );
+  };
+
+  const accessibilityProps = description
+    ? { accessible: true, accessibilityRole: 'image' as const, accessibilityLabel: description }
+    : {};
+
+  const content = currentSource !== undefined ? (
+    <AtomicImage
+      key={getSourceKey(currentSource)}
+      source={currentSource}
+      style={StyleSheet.flatten([imageStyleFinal, imageStyle])}
+      resizeMode="cover"
+      placeholderHash={placeholderHash}
+      placeholderHashType={placeholderHashType}
+      onError={() => setSourceIndex(index => index + 1)}
+    />
+  ) : initials ? (
+    <AtomicText
+      type="labelLarge"
+      color={defaultTextColor}
+      style={{
+        fontSize: getFontSize(avatarSize),
+        fontWeight: tokens.typography.semibold,
+      }}
+    >
+      {initials}
+    </AtomicText>
+  ) : (
+    <AtomicIcon
+      name={fallbackIcon}
+      customSize={Math.round(avatarSize * 0.5)}
+      customColor={defaultTextColor}
+    />
+  );
+
+  if (!hasOverlay) {
+    return (
+      <View style={[avatarStyle, style]} testID={testID} {...accessibilityProps}>
+        {content}
+      </View>
+    );
+  }
+
+  // Overlays sit outside the clipped circle, so layout styles move to a wrapper
+  const { outer, inner } = splitLayoutStyle(style);
+
   return (
-    <View style={[avatarStyle, style]} testID={testID}>
-      {source ? (
-        <AtomicImage
-          source={source}
-          style={StyleSheet.flatten([imageStyleFinal, imageStyle])}
-          resizeMode="cover"
-        />
-      ) : name ? (
-        <AtomicText
-          type="labelLarge"
-          color={defaultTextColor}
-          style={{
-            fontSize: getFontSize(avatarSize),
-            fontWeight: tokens.typography.semibold,
-          }}
-        >
-          {getInitials(name)}
-        </AtomicText>
-      ) : (
-        <AtomicText
-          type="labelLarge"
-          color={defaultTextColor}
-          style={{
-            fontSize: getFontSize(avatarSize),
-            fontWeight: tokens.typography.semibold,
-          }}
-        >
-          ?
-        </AtomicText>
-      )}
+    <View style={[{ width: avatarSize, height: avatarSize }, outer]} testID={testID} {...accessibilityProps}>
+      <View style={[avatarStyle, inner]}>
+        {content}
+      </View>
+      {renderStatus()}
+      {renderBadge()}
     </View>
   );
 };
 
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+const getSourceKey = (source: AvatarSource): string =>
+  typeof source === 'number' ? String(source) : source.uri;
+
+const STATUS_LABELS: Record<AvatarStatus, string> = {
+  online: 'online',
+  away: 'away',
+  busy: 'busy',
+  offline: 'offline',
+};
+
+const getCornerStyle = (position: AvatarOverlayPosition, offset: number): ViewStyle => {
+  const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+  return { [vertical]: offset, [horizontal]: offset };
+};
+
+// Badge size scaled to the avatar
+const getBadgeSize = (avatarSize: number): NonNullable<AtomicBadgeProps['size']> => {
+  if (avatarSize <= 32) return 'xs';
+  if (avatarSize <= 48) return 'sm';
+  if (avatarSize <= 80) return 'md';
+  return 'lg';
+};
+
+const LAYOUT_STYLE_KEYS = new Set([
+  'margin', 'marginTop', 'marginBottom', 'marginLeft', 'marginRight',
+  'marginHorizontal', 'marginVertical', 'marginStart', 'marginEnd',
+  'position', 'top', 'bottom', 'left', 'right', 'start', 'end',
+  'alignSelf', 'flex', 'flexGrow', 'flexShrink', 'flexBasis', 'zIndex', 'transform',
+]);
+
+// Split positioning styles (for the wrapper) from visual styles (for the circle)
+const splitLayoutStyle = (style: AtomicAvatarProps['style']): { outer: ViewStyle; inner: ViewStyle } => {
+  const outer: Record<string, unknown> = {};
+  const inner: Record<string, unknown> = {};
+  const flattened = StyleSheet.flatten(style) || {};
+  for (const [key, value] of Object.entries(flattened)) {
+    (LAYOUT_STYLE_KEYS.has(key) ? outer : inner)[key] = value;
+  }
+  return { outer: outer as ViewStyle, inner: inner as ViewStyle };
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+  },
+});
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
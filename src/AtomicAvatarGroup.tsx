@@ -16,8 +16,9 @@
  */
 
 import React from 'react';
-import { View, StyleSheet, ViewStyle } from 'react-native';
-import { AtomicAvatar, AtomicAvatarProps } from './AtomicAvatar';
+import { View, TouchableOpacity, ViewStyle, StyleSheet } from 'react-native';
+import { AtomicAvatar } from './AtomicAvatar';
+import type { AvatarSource } from './AtomicAvatar';
 import { AtomicText } from './AtomicText';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 
@@ -27,12 +28,19 @@ import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 
 export interface AvatarData {
   id: string;
-  source?: { uri: string } | number;
+  source?: AvatarSource;
   name?: string;
   backgroundColor?: string;
   textColor?: string;
 }
 
+/**
+ * Which end of the stack is drawn on top
+ * - last-on-top: each avatar overlaps the previous one (default)
+ * - first-on-top: the first avatar overlaps the rest
+ */
+export type AvatarGroupDirection = 'last-on-top' | 'first-on-top';
+
 export interface AtomicAvatarGroupProps {
   /** Array of avatar data */
   avatars: AvatarData[];
@@ -54,6 +62,14 @@ export interface AtomicAvatarGroupProps {
   borderWidth?: number;
   /** Avatar border color */
   borderColor?: string;
+  /** Stacking order of overlapping avatars (default: last-on-top) */
+  direction?: AvatarGroupDirection;
+  /** Called when a visible avatar is pressed */
+  onAvatarPress?: (avatar: AvatarData) => void;
+  /** Called when the overflow bubble is pressed, with the hidden avatars */
+  onOverflowPress?: (hidden: AvatarData[]) => void;
+  /** Accessibility label (default: summary such as "Alice, Bob and 5 others") */
+  accessibilityLabel?: string;
   /** Style overrides */
   style?: ViewStyle;
   /** Test ID for testing */
@@ -75,6 +91,10 @@ export const AtomicAvatarGroup: React.FC<AtomicAvatarGroupProps> = ({
   overflowTextColor,
   borderWidth = 2,
   borderColor,
+  direction = 'last-on-top',
+  onAvatarPress,
+  onOverflowPress,
+  accessibilityLabel,
   style,
   testID,
 }) => {
@@ -82,7 +102,12 @@ export const AtomicAvatarGroup: React.FC<AtomicAvatarGroupProps> = ({
 
   // Calculate visible avatars and overflow count
   const visibleAvatars = avatars.slice(0, maxVisible);
-  const overflowCount = avatars.length - maxVisible;
+  const hiddenAvatars = avatars.slice(maxVisible);
+  const overflowCount = hiddenAvatars.length;
+  const showOverflowBubble = showOverflow && overflowCount > 0;
+
+  // Overflow bubble matches the avatar size
+  const avatarSize = customSize || tokens.avatarSizes[size];
 
   // Size mapping for overflow text
   const sizeMap = {
@@ -106,62 +131,141 @@ export const AtomicAvatarGroup: React.FC<AtomicAvatarGroupProps> = ({
   };
 
   const avatarStyle: ViewStyle = {
-    marginLeft: spacing,
     borderWidth,
     borderColor: borderColor || tokens.colors.surface,
   };
 
+  const isInteractive = !!onAvatarPress || (!!onOverflowPress && showOverflowBubble);
+  const summary = accessibilityLabel ?? getGroupSummary(visibleAvatars, overflowCount);
+  const itemCount = visibleAvatars.length + (showOverflowBubble ? 1 : 0);
+
+  // Overlap and stacking order for the item at `index`
+  const getItemStyle = (index: number): ViewStyle => ({
+    marginLeft: index === 0 ? 0 : spacing, // First avatar has no left margin
+    zIndex: direction === 'first-on-top' ? itemCount - index : index,
+  });
+
+  const overflowBubble = showOverflowBubble ? (
+    <View
+      style={{
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: avatarSize,
+        height: avatarSize,
+        borderRadius: avatarSize / 2,
+        backgroundColor: defaultOverflowBackground,
+        borderWidth,
+        borderColor: borderColor || tokens.colors.surface,
+      }}
+    >
+      <AtomicText
+        type="labelMedium"
+        color={defaultOverflowText}
+        style={{
+          fontWeight: tokens.typography.semibold,
+          fontSize: textSize,
+        }}
+      >
+        +{overflowCount}
+      </AtomicText>
+    </View>
+  ) : null;
+
   return (
-    <View style={[containerStyle, style]} testID={testID}>
-      {visibleAvatars.map((avatar, index) => (
-        <AtomicAvatar
-          key={avatar.id}
-          source={avatar.source}
-          name={avatar.name}
-          size={size}
-          customSize={customSize}
-          backgroundColor={avatar.backgroundColor}
-          textColor={avatar.textColor}
-          borderWidth={borderWidth}
-          borderColor={borderColor}
-          style={[
-            avatarStyle,
-            ...(index === 0 ? [{ marginLeft: 0 }] : []), // First avatar has no left margin
-          ]}
-        />
-      ))}
-      {showOverflow && overflowCount > 0 && (
+    <View
+      style={[containerStyle, style]}
+      testID={testID}
+      // Interactive groups keep each avatar focusable; static groups read as one summary
+      accessible={!isInteractive}
+      accessibilityRole={isInteractive ? undefined : 'image'}
+      accessibilityLabel={isInteractive ? undefined : summary}
+    >
+      {/* Interactive groups announce the summary first, from a non-touchable element behind the avatars */}
+      {isInteractive && (
         <View
-          style={[
-            {
-              alignItems: 'center',
-              justifyContent: 'center',
-              width: customSize || 40,
-              height: customSize || 40,
-              borderRadius: (customSize || 40) / 2,
-              backgroundColor: defaultOverflowBackground,
-              borderWidth,
-              borderColor: borderColor || tokens.colors.surface,
-              marginLeft: spacing,
-            },
-          ]}
-        >
-          <AtomicText
-            type="labelMedium"
-            color={defaultOverflowText}
-            style={{
-              fontWeight: tokens.typography.semibold,
-              fontSize: textSize,
-            }}
+          style={StyleSheet.absoluteFill}
+          pointerEvents="none"
+          accessible
+          accessibilityRole="text"
+          accessibilityLabel={summary}
+          testID={testID ? `${testID}-summary` : undefined}
+        />
+      )}
+      {visibleAvatars.map((avatar, index) => {
+        const avatarElement = (
+          <AtomicAvatar
+            source={avatar.source}
+            name={avatar.name}
+            size={size}
+            customSize={customSize}
+            backgroundColor={avatar.backgroundColor}
+            textColor={avatar.textColor}
+            borderWidth={borderWidth}
+            borderColor={borderColor}
+            style={[avatarStyle, ...(onAvatarPress ? [] : [getItemStyle(index)])]}
+          />
+        );
+
+        return onAvatarPress ? (
+          <TouchableOpacity
+            key={avatar.id}
+            style={getItemStyle(index)}
+            onPress={() => onAvatarPress(avatar)}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel={avatar.name}
+            testID={testID ? `${testID}-avatar-${avatar.id}` : undefined}
+          >
+            {avatarElement}
+          </TouchableOpacity>
+        ) : (
+          <React.Fragment key={avatar.id}>{avatarElement}</React.Fragment>
+        );
+      })}
+      {overflowBubble && (
+        onOverflowPress ? (
+          <TouchableOpacity
+            style={getItemStyle(visibleAvatars.length)}
+            onPress={() => onOverflowPress(hiddenAvatars)}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel={`${overflowCount} ${overflowCount === 1 ? 'other' : 'others'}`}
+            testID={testID ? `${testID}-overflow` : undefined}
           >
-            +{overflowCount}
-          </AtomicText>
-        </View>
+            {overflowBubble}
+          </TouchableOpacity>
+        ) : (
+          <View style={getItemStyle(visibleAvatars.length)}>
+            {overflowBubble}
+          </View>
+        )
       )}
     </View>
   );
 };
 
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Spoken summary of the group, e.g. "Alice, Bob and 5 others"
+ * Visible avatars without a name count towards "others"
+ */
+const getGroupSummary = (visible: AvatarData[], overflowCount: number): string => {
+  const names = visible.map(avatar => avatar.name).filter((name): name is string => !!name);
+  const others = overflowCount + (visible.length - names.length);
+
+  if (others > 0) {
+    const othersLabel = `${others} ${others === 1 ? 'other' : 'others'}`;
+    return names.length > 0 ? `${names.join(', ')} and ${othersLabel}` : othersLabel;
+  }
+  if (names.length <= 1) {
+    return names.join('');
+  }
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
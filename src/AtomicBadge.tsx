@@ -14,9 +14,11 @@
  * - Achievement badges
  */
 
-import React from 'react';
-import { View, StyleSheet, StyleProp, ViewStyle, TextStyle } from 'react-native';
+import React, { useEffect, useRef } from 'react';
+import { View, Animated, AccessibilityInfo, Platform, StyleSheet, StyleProp, ViewStyle, TextStyle } from 'react-native';
 import { AtomicText } from './AtomicText';
+import { useReduceMotion } from './hooks/useReduceMotion';
+import { useBadgeCountAnimation } from './badge/hooks/useBadgeCountAnimation';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import type { DesignTokens } from '@umituz/react-native-design-system-theme';
 
@@ -24,9 +26,19 @@ import type { DesignTokens } from '@umituz/react-native-design-system-theme';
 // TYPE DEFINITIONS
 // =============================================================================
 
+export type BadgeAnchorPosition = 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
+
 export interface AtomicBadgeProps {
-  /** Badge content (number, text, or custom element) */
-  children: React.ReactNode;
+  /** Badge content (number, text, or custom element); ignored for dots */
+  children?: React.ReactNode;
+  /** Render a small dot without content */
+  dot?: boolean;
+  /** Element the badge is anchored to (e.g. an AtomicIcon or AtomicAvatar) */
+  anchor?: React.ReactNode;
+  /** Corner of `anchor` the badge sits on (default: top-right, mirrored in RTL) */
+  anchorPosition?: BadgeAnchorPosition;
+  /** Offset from the anchored corner, positive values move the badge inwards */
+  anchorOffset?: number | { x: number; y: number };
   /** Size variant */
   size?: 'xs' | 'sm' | 'md' | 'lg';
   /** Color variant */
@@ -45,6 +57,12 @@ export interface AtomicBadgeProps {
   minWidth?: number;
   /** Maximum width */
   maxWidth?: number;
+  /** Style override for the anchor wrapper */
+  anchorStyle?: StyleProp<ViewStyle>;
+  /** Pop on increment and roll digits when a numeric count changes (off under reduce motion) */
+  animated?: boolean;
+  /** Spoken label, also announced when an animated count changes (default: displayed value) */
+  accessibilityLabel?: string;
 }
 
 // =============================================================================
@@ -84,6 +102,11 @@ const getSizeConfig = (tokens: DesignTokens) => ({
 
 export const AtomicBadge: React.FC<AtomicBadgeProps> = ({
   children,
+  dot = false,
+  anchor,
+  anchorPosition = 'top-right',
+  anchorOffset = 0,
+  anchorStyle,
   size = 'md',
   variant = 'primary',
   shape = 'circle',
@@ -93,9 +116,12 @@ export const AtomicBadge: React.FC<AtomicBadgeProps> = ({
   textStyle,
   minWidth,
   maxWidth,
+  animated = false,
+  accessibilityLabel,
 }) => {
   const tokens = useAppDesignTokens();
   const styles = getStyles(tokens);
+  const reduceMotion = useReduceMotion();
 
   const sizeConfig = getSizeConfig(tokens)[size as 'xs' | 'sm' | 'md' | 'lg'];
   const colors = getVariantColors(tokens, variant as 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info');
@@ -112,21 +138,55 @@ export const AtomicBadge: React.FC<AtomicBadgeProps> = ({
     return children;
   }, [children, max]);
 
+  const count = typeof children === 'number' && !dot ? children : undefined;
+  const label = typeof displayValue === 'string' ? displayValue : undefined;
+  const spokenLabel = accessibilityLabel ?? label;
+
+  const { scale, roll, outgoingLabel, direction } = useBadgeCountAnimation(
+    count,
+    label,
+    animated && !reduceMotion
+  );
+
+  // Android announces through accessibilityLiveRegion; iOS needs an explicit announcement
+  const lastAnnouncedCount = useRef(count);
+  useEffect(() => {
+    if (!animated || count === lastAnnouncedCount.current) return;
+    lastAnnouncedCount.current = count;
+    if (Platform.OS === 'ios' && spokenLabel) {
+      AccessibilityInfo.announceForAccessibility(spokenLabel);
+    }
+  }, [animated, count, spokenLabel]);
+
   // Don't render if count is 0 and showZero is false
-  if (typeof children === 'number' && children === 0 && !showZero) {
-    return null;
+  const isHidden = !dot && typeof children === 'number' && children === 0 && !showZero;
+  const isAnchored = anchor !== undefined;
+
+  if (isHidden) {
+    return isAnchored ? <View style={[styles.anchor, anchorStyle]}>{anchor}</View> : null;
   }
 
+  const dotSize = Math.max(6, Math.round(sizeConfig.minHeight / 2));
+  const badgeHeight = dot ? dotSize : sizeConfig.minHeight;
+
   const containerStyle = [
     styles.container,
-    {
-      minHeight: sizeConfig.minHeight,
-      paddingHorizontal: sizeConfig.paddingHorizontal,
-      borderRadius,
-      backgroundColor: colors.background,
-      minWidth: minWidth || sizeConfig.minHeight,
-      maxWidth,
-    },
+    dot
+      ? {
+          width: dotSize,
+          height: dotSize,
+          borderRadius: dotSize / 2,
+          backgroundColor: colors.background,
+        }
+      : {
+          minHeight: sizeConfig.minHeight,
+          paddingHorizontal: sizeConfig.paddingHorizontal,
+          borderRadius,
+          backgroundColor: colors.background,
+          minWidth: minWidth || sizeConfig.minHeight,
+          maxWidth,
+        },
+    isAnchored ? [styles.anchored, getAnchorStyle(anchorPosition, anchorOffset, badgeHeight)] : undefined,
     style,
   ];
 
@@ -138,18 +198,66 @@ export const AtomicBadge: React.FC<AtomicBadgeProps> = ({
     textStyle,
   ]);
 
-  return (
-    <View style={containerStyle}>
-      <AtomicText
-        type="bodySmall"
-        color={colors.text}
-        style={textStyleFinal}
-        numberOfLines={1}
+  const renderLabel = (value: React.ReactNode) => (
+    <AtomicText
+      type="bodySmall"
+      color={colors.text}
+      style={textStyleFinal}
+      numberOfLines={1}
+    >
+      {value}
+    </AtomicText>
+  );
+
+  const rollDistance = badgeHeight * direction;
+
+  const badgeElement = dot ? (
+    <View style={containerStyle} />
+  ) : animated ? (
+    <Animated.View
+      style={[containerStyle, styles.clip, { transform: [{ scale }] }]}
+      accessible
+      accessibilityLabel={spokenLabel}
+      accessibilityLiveRegion="polite"
+    >
+      {outgoingLabel !== undefined ? (
+        <Animated.View
+          style={[
+            styles.outgoing,
+            {
+              opacity: roll.interpolate({ inputRange: [0, 1], outputRange: [1, 0] }),
+              transform: [{ translateY: roll.interpolate({ inputRange: [0, 1], outputRange: [0, -rollDistance] }) }],
+            },
+          ]}
+        >
+          {renderLabel(outgoingLabel)}
+        </Animated.View>
+      ) : null}
+      <Animated.View
+        style={{
+          opacity: roll,
+          transform: [{ translateY: roll.interpolate({ inputRange: [0, 1], outputRange: [rollDistance, 0] }) }],
+        }}
       >
-        {displayValue}
-      </AtomicText>
+        {renderLabel(displayValue)}
+      </Animated.View>
+    </Animated.View>
+  ) : (
+    <View style={containerStyle} accessibilityLabel={accessibilityLabel}>
+      {renderLabel(displayValue)}
     </View>
   );
+
+  if (isAnchored) {
+    return (
+      <View style={[styles.anchor, anchorStyle]}>
+        {anchor}
+        {badgeElement}
+      </View>
+    );
+  }
+
+  return badgeElement;
 };
 
 // =============================================================================
@@ -196,6 +304,25 @@ const getVariantColors = (tokens: ReturnType<typeof useAppDesignTokens>, variant
   }
 };
 
+/**
+ * Position an anchored badge so its center sits on the chosen corner
+ * Uses start/end insets so left/right mirror automatically in RTL layouts
+ */
+const getAnchorStyle = (
+  position: BadgeAnchorPosition,
+  offset: NonNullable<AtomicBadgeProps['anchorOffset']>,
+  badgeHeight: number
+): ViewStyle => {
+  const { x, y } = typeof offset === 'number' ? { x: offset, y: offset } : offset;
+  const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+  const inset = -badgeHeight / 2;
+
+  return {
+    [vertical]: inset + y,
+    [horizontal === 'right' ? 'end' : 'start']: inset + x,
+  };
+};
+
 const getBorderRadius = (shape: AtomicBadgeProps['shape'], defaultRadius: number, tokens: ReturnType<typeof useAppDesignTokens>): number => {
   switch (shape) {
     case 'circle':
@@ -223,6 +350,22 @@ const getStyles = (tokens: ReturnType<typeof useAppDesignTokens>) =>
       fontWeight: tokens.typography.semibold,
       textAlign: 'center',
     },
+    anchor: {
+      position: 'relative',
+      alignSelf: 'flex-start',
+    },
+    anchored: {
+      position: 'absolute',
+      zIndex: 1,
+    },
+    clip: {
+      overflow: 'hidden',
+    },
+    outgoing: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
   });
 
 // =============================================================================
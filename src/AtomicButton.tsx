@@ -1,27 +1,57 @@
-import React from 'react';
-import { StyleSheet, StyleProp, ViewStyle, TextStyle, TouchableOpacity, View } from 'react-native';
+import React, { useState, useRef, useEffect } from 'react';
+import { StyleSheet, StyleProp, ViewStyle, TextStyle, TouchableOpacity, View, ActivityIndicator } from 'react-native';
 import { AtomicText } from './AtomicText';
 import { AtomicIcon } from './AtomicIcon';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import type { IconName } from './AtomicIcon';
-
-export type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'text' | 'danger';
-export type ButtonSize = 'sm' | 'md' | 'lg';
-
-export interface AtomicButtonProps {
+import { ButtonVariant, ButtonSize, ButtonIconPosition } from './button/types';
+import { getButtonSizeConfig, getButtonVariantStyles } from './button/styles/buttonStyles';
+
+export type {
+  ButtonVariant,
+  ButtonSize,
+  ButtonIconPosition,
+  ButtonSizeConfig,
+  ButtonVariantConfig,
+} from './button/types';
+export { getButtonSizeConfig, getButtonVariantStyles };
+
+interface AtomicButtonBaseProps {
   title?: string;
   children?: React.ReactNode;
-  onPress: () => void;
+  /** Press handler. Returning a Promise shows the loading state until it settles */
+  onPress: () => void | Promise<unknown>;
   variant?: ButtonVariant;
   size?: ButtonSize;
   disabled?: boolean;
+  /** Show a spinner instead of the icon and label, and ignore presses */
+  loading?: boolean;
   icon?: IconName;
+  /** Side of the label `icon` is rendered on */
+  iconPosition?: ButtonIconPosition;
+  /** Icon rendered after the label, independent of `icon` */
+  trailingIcon?: IconName;
   fullWidth?: boolean;
   style?: StyleProp<ViewStyle>;
   textStyle?: StyleProp<TextStyle>;
   testID?: string;
 }
 
+interface AtomicButtonLabelProps extends AtomicButtonBaseProps {
+  iconOnly?: false;
+  accessibilityLabel?: string;
+}
+
+interface AtomicButtonIconOnlyProps extends AtomicButtonBaseProps {
+  /** Render only `icon` inside a square button sized from the button size */
+  iconOnly: true;
+  icon: IconName;
+  /** Required: an icon-only button has no visible label for screen readers */
+  accessibilityLabel: string;
+}
+
+export type AtomicButtonProps = AtomicButtonLabelProps | AtomicButtonIconOnlyProps;
+
 export const AtomicButton: React.FC<AtomicButtonProps> = ({
   title,
   children,
@@ -29,130 +59,58 @@ export const AtomicButton: React.FC<AtomicButtonProps> = ({
   variant = 'primary',
   size = 'md',
   disabled = false,
+  loading = false,
   icon,
+  iconPosition = 'leading',
+  trailingIcon,
+  iconOnly = false,
   fullWidth = false,
   style,
   textStyle,
   testID,
+  accessibilityLabel,
 }) => {
   const tokens = useAppDesignTokens();
+  const [isPending, setIsPending] = useState(false);
+  // The ref guards presses; state only drives rendering (it lags until the re-render commits)
+  const pendingPress = useRef<Promise<unknown> | null>(null);
+  const isMounted = useRef(true);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const isLoading = loading || isPending;
 
   const handlePress = () => {
-    if (!disabled) {
-      onPress();
+    if (disabled || loading || pendingPress.current) {
+      return;
     }
-  };
-
-  // Size configurations
-  const sizeConfig = {
-    sm: {
-      paddingVertical: tokens.spacing.xs,
-      paddingHorizontal: tokens.spacing.sm,
-      fontSize: tokens.typography.bodySmall.fontSize,
-      iconSize: 16,
-      minHeight: 32,
-    },
-    md: {
-      paddingVertical: tokens.spacing.sm,
-      paddingHorizontal: tokens.spacing.md,
-      fontSize: tokens.typography.bodyMedium.fontSize,
-      iconSize: 20,
-      minHeight: 44,
-    },
-    lg: {
-      paddingVertical: tokens.spacing.md,
-      paddingHorizontal: tokens.spacing.lg,
-      fontSize: tokens.typography.bodyLarge.fontSize,
-      iconSize: 24,
-      minHeight: 52,
-    },
-  };
-
-  const config = sizeConfig[size];
 
-  // Variant styles
-  const getVariantStyles = () => {
-    const baseStyle: ViewStyle = {
-      backgroundColor: tokens.colors.primary,
-      borderWidth: 0,
-    };
-
-    const baseTextStyle: TextStyle = {
-      color: tokens.colors.textInverse,
-    };
-
-    switch (variant) {
-      case 'primary':
-        return {
-          container: {
-            ...baseStyle,
-            backgroundColor: tokens.colors.primary,
-          },
-          text: {
-            ...baseTextStyle,
-            color: tokens.colors.textInverse,
-          },
-        };
-
-      case 'secondary':
-        return {
-          container: {
-            ...baseStyle,
-            backgroundColor: tokens.colors.surfaceSecondary,
-          },
-          text: {
-            ...baseTextStyle,
-            color: tokens.colors.textPrimary,
-          },
-        };
-
-      case 'outline':
-        return {
-          container: {
-            ...baseStyle,
-            backgroundColor: 'transparent',
-            borderWidth: 1,
-            borderColor: tokens.colors.border,
-          },
-          text: {
-            ...baseTextStyle,
-            color: tokens.colors.textPrimary,
-          },
-        };
-
-      case 'text':
-        return {
-          container: {
-            ...baseStyle,
-            backgroundColor: 'transparent',
-          },
-          text: {
-            ...baseTextStyle,
-            color: tokens.colors.primary,
-          },
-        };
-
-      case 'danger':
-        return {
-          container: {
-            ...baseStyle,
-            backgroundColor: tokens.colors.error,
-          },
-          text: {
-            ...baseTextStyle,
-            color: tokens.colors.textInverse,
-          },
-        };
-
-      default:
-        return {
-          container: baseStyle,
-          text: baseTextStyle,
-        };
+    const result = onPress();
+
+    // Async handler: stay busy until the promise settles
+    if (result && typeof (result as Promise<unknown>).then === 'function') {
+      const promise = result as Promise<unknown>;
+      pendingPress.current = promise;
+      setIsPending(true);
+      const settle = () => {
+        if (pendingPress.current === promise) {
+          pendingPress.current = null;
+        }
+        if (isMounted.current) {
+          setIsPending(false);
+        }
+      };
+      promise.then(settle, settle);
     }
   };
 
-  const variantStyles = getVariantStyles();
+  const config = getButtonSizeConfig(tokens)[size];
+  const variantStyles = getButtonVariantStyles(tokens, variant);
 
   const containerStyle: StyleProp<ViewStyle> = [
     styles.button,
@@ -162,6 +120,14 @@ export const AtomicButton: React.FC<AtomicButtonProps> = ({
       minHeight: config.minHeight,
       borderRadius: tokens.borders.radius.md,
     },
+    iconOnly
+      ? {
+          width: config.minHeight,
+          height: config.minHeight,
+          paddingVertical: 0,
+          paddingHorizontal: 0,
+        }
+      : undefined,
     variantStyles.container,
     fullWidth ? styles.fullWidth : undefined,
     disabled ? styles.disabled : undefined,
@@ -179,31 +145,64 @@ export const AtomicButton: React.FC<AtomicButtonProps> = ({
   ];
 
   const buttonText = title || children;
-  const showIcon = icon;
   const iconColor = variantStyles.text.color;
 
+  const renderIcon = (name: IconName, iconStyle?: StyleProp<ViewStyle>) => (
+    <AtomicIcon
+      name={name}
+      customSize={config.iconSize}
+      customColor={typeof iconColor === 'string' ? iconColor : undefined}
+      style={iconStyle}
+    />
+  );
+
+  const iconSpacing = tokens.spacing.sm;
+  const leadingIcon = iconPosition === 'leading' ? icon : undefined;
+  const trailingIcons = [iconPosition === 'trailing' ? icon : undefined, trailingIcon].filter(
+    (name): name is IconName => !!name
+  );
+
   return (
     <TouchableOpacity
       style={containerStyle}
       onPress={handlePress}
       activeOpacity={0.8}
-      disabled={disabled}
+      disabled={disabled || isLoading}
       testID={testID}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ disabled: disabled || isLoading, busy: isLoading }}
     >
-      <View style={styles.content}>
-        {showIcon ? (
-          <AtomicIcon
-            name={typeof icon === 'string' ? icon : String(icon)}
-            customSize={config.iconSize}
-            customColor={typeof iconColor === 'string' ? iconColor : undefined}
-            style={styles.icon}
-          />
-        ) : null}
-
-        <AtomicText style={buttonTextStyle}>
-          {buttonText}
-        </AtomicText>
+      {/* Content stays mounted (but hidden) while loading so the button keeps its width */}
+      <View style={[styles.content, isLoading ? styles.hidden : undefined]}>
+        {iconOnly && icon ? (
+          renderIcon(icon)
+        ) : (
+          <>
+            {leadingIcon ? renderIcon(leadingIcon, { marginRight: iconSpacing }) : null}
+
+            <AtomicText style={buttonTextStyle}>
+              {buttonText}
+            </AtomicText>
+
+            {trailingIcons.map((name, index) => (
+              <React.Fragment key={`${name}-${index}`}>
+                {renderIcon(name, { marginLeft: iconSpacing })}
+              </React.Fragment>
+            ))}
+          </>
+        )}
       </View>
+
+      {isLoading ? (
+        <View style={styles.loader}>
+          <ActivityIndicator
+            size="small"
+            color={typeof iconColor === 'string' ? iconColor : undefined}
+            testID={testID ? `${testID}-loading` : undefined}
+          />
+        </View>
+      ) : null}
     </TouchableOpacity>
   );
 };
@@ -228,8 +227,13 @@ const styles = StyleSheet.create({
   disabledText: {
     opacity: 0.7,
   },
-  icon: {
-    marginRight: 8,
+  hidden: {
+    opacity: 0,
+  },
+  loader: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
   },
 });
 
@@ -0,0 +1,208 @@
+/**
+ * AtomicButtonGroup - Segmented Button Component
+ *
+ * Renders a row of connected segments sharing AtomicButton's
+ * variant and size configurations
+ * Theme: {{THEME_NAME}} ({{CATEGORY}} category)
+ *
+ * Atomic Design Level: ATOM
+ * Purpose: Segmented controls and grouped toggle buttons
+ *
+ * Usage:
+ * - View switchers (List / Grid)
+ * - Time range selectors (Day / Week / Month)
+ * - Multi-choice toggles (Bold / Italic / Underline)
+ */
+
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicText } from './AtomicText';
+import { AtomicIcon } from './AtomicIcon';
+import type { IconName } from './AtomicIcon';
+import { ButtonVariant, ButtonSize } from './button/types';
+import { getButtonSizeConfig, getButtonVariantStyles } from './button/styles/buttonStyles';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface ButtonGroupSegment {
+  /** Unique identifier for the segment */
+  id: string;
+  /** Segment label */
+  title?: string;
+  /** Segment icon */
+  icon?: IconName;
+  /** Disable this segment only */
+  disabled?: boolean;
+  /** Accessibility label (required for icon-only segments) */
+  accessibilityLabel?: string;
+}
+
+export interface AtomicButtonGroupProps {
+  /** Segments to display, in order */
+  segments: ButtonGroupSegment[];
+  /** Currently selected segment IDs */
+  selectedIds: string[];
+  /** Callback when selection changes */
+  onSelectionChange: (selectedIds: string[]) => void;
+  /** Allow more than one selected segment (default: false) */
+  multiSelect?: boolean;
+  /** Variant used for selected segments (default: primary) */
+  variant?: ButtonVariant;
+  /** Segment size */
+  size?: ButtonSize;
+  /** Stretch segments to fill the available width */
+  fullWidth?: boolean;
+  /** Disable the whole group */
+  disabled?: boolean;
+  /** Style overrides */
+  style?: StyleProp<ViewStyle>;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+// =============================================================================
+// COMPONENT IMPLEMENTATION
+// =============================================================================
+
+export const AtomicButtonGroup: React.FC<AtomicButtonGroupProps> = ({
+  segments,
+  selectedIds,
+  onSelectionChange,
+  multiSelect = false,
+  variant = 'primary',
+  size = 'md',
+  fullWidth = false,
+  disabled = false,
+  style,
+  testID,
+}) => {
+  const tokens = useAppDesignTokens();
+
+  const config = getButtonSizeConfig(tokens)[size];
+  const selectedStyles = getButtonVariantStyles(tokens, variant);
+  const unselectedStyles = getButtonVariantStyles(tokens, 'outline');
+  const radius = tokens.borders.radius.md;
+  const borderColor = tokens.colors.border;
+
+  /**
+   * Handle segment press
+   * - Multi-select: toggle the segment
+   * - Single-select: select the segment (pressing the active one keeps it)
+   */
+  const handleSegmentPress = (segmentId: string) => {
+    if (multiSelect) {
+      if (selectedIds.includes(segmentId)) {
+        onSelectionChange(selectedIds.filter(id => id !== segmentId));
+      } else {
+        onSelectionChange([...selectedIds, segmentId]);
+      }
+    } else if (!selectedIds.includes(segmentId)) {
+      onSelectionChange([segmentId]);
+    }
+  };
+
+  return (
+    <View
+      style={[styles.container, fullWidth ? styles.fullWidth : undefined, style]}
+      accessibilityRole="tablist"
+      testID={testID}
+    >
+      {segments.map((segment, index) => {
+        const isSelected = selectedIds.includes(segment.id);
+        const isDisabled = disabled || !!segment.disabled;
+        const isFirst = index === 0;
+        const isLast = index === segments.length - 1;
+        const variantStyles = isSelected ? selectedStyles : unselectedStyles;
+        const contentColor = variantStyles.text.color as string | undefined;
+
+        // Only the outer corners of the group are rounded
+        const segmentStyle: ViewStyle = {
+          paddingVertical: config.paddingVertical,
+          paddingHorizontal: config.paddingHorizontal,
+          minHeight: config.minHeight,
+          backgroundColor: variantStyles.container.backgroundColor,
+          borderWidth: 1,
+          borderColor,
+          marginLeft: isFirst ? 0 : -1,
+          borderTopLeftRadius: isFirst ? radius : 0,
+          borderBottomLeftRadius: isFirst ? radius : 0,
+          borderTopRightRadius: isLast ? radius : 0,
+          borderBottomRightRadius: isLast ? radius : 0,
+        };
+
+        return (
+          <TouchableOpacity
+            key={segment.id}
+            style={[
+              styles.segment,
+              segmentStyle,
+              fullWidth ? styles.segmentFill : undefined,
+              isDisabled ? styles.disabled : undefined,
+            ]}
+            onPress={() => handleSegmentPress(segment.id)}
+            activeOpacity={0.8}
+            disabled={isDisabled}
+            accessibilityRole="tab"
+            accessibilityLabel={segment.accessibilityLabel ?? segment.title}
+            accessibilityState={{ selected: isSelected, disabled: isDisabled }}
+            testID={testID ? `${testID}-segment-${segment.id}` : undefined}
+          >
+            {segment.icon ? (
+              <AtomicIcon
+                name={segment.icon}
+                customSize={config.iconSize}
+                customColor={contentColor}
+                style={segment.title ? { marginRight: tokens.spacing.xs } : undefined}
+              />
+            ) : null}
+            {segment.title ? (
+              <AtomicText
+                style={[
+                  { fontSize: config.fontSize, fontWeight: '600' },
+                  variantStyles.text,
+                ]}
+                numberOfLines={1}
+              >
+                {segment.title}
+              </AtomicText>
+            ) : null}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+  },
+  segment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  segmentFill: {
+    flex: 1,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default AtomicButtonGroup;
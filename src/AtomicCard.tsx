@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, StyleProp, ViewStyle, Pressable } from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicSkeleton } from './AtomicSkeleton';
 
 export type AtomicCardVariant = 'flat' | 'elevated' | 'outlined';
 export type AtomicCardPadding = 'none' | 'sm' | 'md' | 'lg' | 'xl';
@@ -13,6 +14,10 @@ export interface AtomicCardProps {
   style?: StyleProp<ViewStyle>;
   children?: React.ReactNode;
   testID?: string;
+  /** Replace the card content with skeleton lines (or `skeleton`) */
+  loading?: boolean;
+  /** Custom skeleton content shown while loading */
+  skeleton?: React.ReactNode;
 }
 
 
@@ -24,6 +29,8 @@ export const AtomicCard: React.FC<AtomicCardProps> = ({
   style,
   children,
   testID,
+  loading = false,
+  skeleton,
 }) => {
   const tokens = useAppDesignTokens();
 
@@ -87,14 +94,22 @@ export const AtomicCard: React.FC<AtomicCardProps> = ({
     style,
   ];
 
+  const skeletonContent = skeleton ?? (
+    <View style={{ gap: tokens.spacing.sm }}>
+      <AtomicSkeleton width="60%" height={tokens.typography.titleMedium?.fontSize ?? 16} />
+      <AtomicSkeleton height={tokens.typography.bodyMedium.fontSize} />
+      <AtomicSkeleton width="80%" height={tokens.typography.bodyMedium.fontSize} />
+    </View>
+  );
+
   const cardContent = (
     <View style={cardStyle} testID={testID}>
-      {children}
+      {loading ? skeletonContent : children}
     </View>
   );
 
-  // If onPress provided, wrap with pressable
-  if (onPress && !disabled) {
+  // If onPress provided, wrap with pressable (not while loading)
+  if (onPress && !disabled && !loading) {
     return (
       <Pressable onPress={handlePress}>
         {cardContent}
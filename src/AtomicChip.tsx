@@ -11,6 +11,7 @@
  * - Category tags
  * - Status indicators
  * - Filter chips
+ * - Input chips (avatar + remove button)
  * - Skill labels
  * - Badge displays
  */
@@ -19,6 +20,7 @@ import React from 'react';
 import { View, StyleSheet, ViewStyle, TouchableOpacity } from 'react-native';
 import { AtomicText } from './AtomicText';
 import { AtomicIcon } from './AtomicIcon';
+import type { IconName } from './AtomicIcon';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 
 // =============================================================================
@@ -41,19 +43,29 @@ export interface AtomicChipProps {
   /** Custom border color */
   borderColor?: string;
   /** Leading icon */
-  leadingIcon?: string;
-  /** Trailing icon */
-  trailingIcon?: string;
+  leadingIcon?: IconName;
+  /** Trailing icon (replaced by the close button when `onClose` is set) */
+  trailingIcon?: IconName;
+  /** Leading avatar slot (e.g. a small AtomicAvatar); replaces `leadingIcon` */
+  avatar?: React.ReactNode;
+  /** Show a close button that calls this handler */
+  onClose?: () => void;
+  /** Accessibility label for the close button (default: "Remove <label>") */
+  closeAccessibilityLabel?: string;
   /** Whether the chip is clickable */
   clickable?: boolean;
   /** Click handler */
   onPress?: () => void;
   /** Whether the chip is selected */
   selected?: boolean;
+  /** MD3 filter chip: a selected chip shows a leading checkmark on a secondary container */
+  showCheckmark?: boolean;
   /** Whether the chip is disabled */
   disabled?: boolean;
   /** Style overrides */
   style?: ViewStyle;
+  /** Accessibility label (default: the chip text) */
+  accessibilityLabel?: string;
   /** Test ID for testing */
   testID?: string;
 }
@@ -72,11 +84,16 @@ export const AtomicChip: React.FC<AtomicChipProps> = ({
   borderColor,
   leadingIcon,
   trailingIcon,
+  avatar,
+  onClose,
+  closeAccessibilityLabel,
   clickable = false,
   onPress,
   selected = false,
+  showCheckmark = false,
   disabled = false,
   style,
+  accessibilityLabel,
   testID,
 }) => {
   const tokens = useAppDesignTokens();
@@ -140,18 +157,19 @@ export const AtomicChip: React.FC<AtomicChipProps> = ({
   };
 
   const colorConfig = colorMap[color][variant];
+  const isCheckmarkSelected = showCheckmark && selected;
 
   // Apply custom colors if provided
-  const finalBackgroundColor = backgroundColor || colorConfig.bg;
-  const finalTextColor = textColor || colorConfig.text;
+  const finalBackgroundColor = backgroundColor || (isCheckmarkSelected ? tokens.colors.secondaryContainer : colorConfig.bg);
+  const finalTextColor = textColor || (isCheckmarkSelected ? tokens.colors.onSecondaryContainer : colorConfig.text);
   const finalBorderColor = borderColor || colorConfig.border;
 
   // Handle disabled state
-  const isDisabled = disabled || (!clickable && !onPress);
+  const isDisabled = disabled || (!clickable && !onPress && !onClose);
   const opacity = isDisabled ? 0.5 : 1;
 
-  // Handle selected state
-  const selectedStyle = selected ? {
+  // Handle selected state (checkmark chips show selection through color instead of a border)
+  const selectedStyle = selected && !isCheckmarkSelected ? {
     borderWidth: tokens.borders.width.medium,
     borderColor: tokens.colors.primary,
   } : {};
@@ -164,7 +182,7 @@ export const AtomicChip: React.FC<AtomicChipProps> = ({
     paddingVertical: sizeConfig.paddingVertical,
     backgroundColor: finalBackgroundColor,
     borderRadius: tokens.borders.radius.xl,
-    borderWidth: variant === 'outlined' ? 1 : 0,
+    borderWidth: variant === 'outlined' && !isCheckmarkSelected ? 1 : 0,
     borderColor: finalBorderColor,
     opacity,
     ...selectedStyle,
@@ -177,16 +195,30 @@ export const AtomicChip: React.FC<AtomicChipProps> = ({
 
   const iconColor = finalTextColor;
 
+  // Checkmark replaces the leading icon on selected filter chips
+  const leadingIconName: IconName | undefined = isCheckmarkSelected ? 'Check' : leadingIcon;
+  const label = typeof children === 'string' || typeof children === 'number' ? String(children) : undefined;
+
   const content = (
-    <View style={[chipStyle, style]} testID={testID}>
-      {leadingIcon && (
+    <View
+      style={[chipStyle, style]}
+      testID={testID}
+      // A static chip reads as one element unless its close button must stay reachable
+      accessible={!!accessibilityLabel && !onClose}
+      accessibilityLabel={accessibilityLabel}
+    >
+      {avatar && !isCheckmarkSelected ? (
+        <View style={{ marginLeft: -tokens.spacing.xs, marginRight: tokens.spacing.xs }}>
+          {avatar}
+        </View>
+      ) : leadingIconName ? (
         <AtomicIcon
-          name={leadingIcon}
+          name={leadingIconName}
           size={sizeConfig.iconSize}
           customColor={iconColor}
           style={{ marginRight: tokens.spacing.xs }}
         />
-      )}
+      ) : null}
       <AtomicText
         type="labelMedium"
         color={finalTextColor}
@@ -194,20 +226,42 @@ export const AtomicChip: React.FC<AtomicChipProps> = ({
       >
         {children}
       </AtomicText>
-      {trailingIcon && (
+      {onClose ? (
+        <TouchableOpacity
+          onPress={onClose}
+          disabled={disabled}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          style={{ marginLeft: tokens.spacing.xs, marginRight: -tokens.spacing.xs }}
+          accessibilityRole="button"
+          accessibilityLabel={closeAccessibilityLabel ?? (label ? `Remove ${label}` : 'Remove')}
+          testID={testID ? `${testID}-close` : undefined}
+        >
+          <AtomicIcon
+            name="X"
+            size={sizeConfig.iconSize}
+            customColor={iconColor}
+          />
+        </TouchableOpacity>
+      ) : trailingIcon ? (
         <AtomicIcon
           name={trailingIcon}
           size={sizeConfig.iconSize}
           customColor={iconColor}
           style={{ marginLeft: tokens.spacing.xs }}
         />
-      )}
+      ) : null}
     </View>
   );
 
   if (clickable && onPress && !disabled) {
     return (
-      <TouchableOpacity onPress={onPress} activeOpacity={0.7}>
+      <TouchableOpacity
+        onPress={onPress}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={accessibilityLabel}
+        accessibilityState={{ selected, disabled }}
+      >
         {content}
       </TouchableOpacity>
     );
@@ -0,0 +1,381 @@
+/**
+ * AtomicChipInput - Tag/Token Input Component
+ *
+ * Free-text entry that turns typed values into AtomicChips inside the field
+ * Theme: {{THEME_NAME}} ({{CATEGORY}} category)
+ *
+ * Atomic Design Level: ATOM
+ * Purpose: Entering lists of short values
+ *
+ * Usage:
+ * - Tags and keywords
+ * - Email recipients
+ * - Skills and interests
+ *
+ * Behavior:
+ * - Enter or a separator (comma, space by default) commits the typed tag
+ * - Backspace on an empty input removes the last tag
+ * - Pasted text is split on separators and new lines
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  TextStyle,
+  NativeSyntheticEvent,
+  TextInputKeyPressEventData,
+} from 'react-native';
+import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicChip } from './AtomicChip';
+import { AtomicText } from './AtomicText';
+import {
+  getInputSizeConfig,
+  getInputVariantStyle,
+  getInputTextColor,
+  AtomicInputStyleState,
+  AtomicInputVariant,
+  AtomicInputState,
+  AtomicInputSize,
+} from './AtomicInput';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * Why a tag was not added
+ * - invalid: `validate` rejected it
+ * - duplicate: the tag is already in the list
+ * - max: `maxTags` is reached
+ */
+export type ChipInputRejectReason = 'invalid' | 'duplicate' | 'max';
+
+export interface AtomicChipInputProps {
+  /** Current tags */
+  value: string[];
+  /** Called with the new tag list */
+  onChange: (tags: string[]) => void;
+  /** Input label */
+  label?: string;
+  /** Placeholder shown while the input is empty */
+  placeholder?: string;
+  /** Helper text below the field */
+  helperText?: string;
+  /** Input variant (outlined, filled, flat) */
+  variant?: AtomicInputVariant;
+  /** Input state (default, error, success, disabled) */
+  state?: AtomicInputState;
+  /** Input size (sm, md, lg) */
+  size?: AtomicInputSize;
+  /** Characters that commit the typed tag (default: comma and space) */
+  separators?: string[];
+  /** Return false to reject a tag, or a message to reject it and show the message */
+  validate?: (tag: string) => boolean | string;
+  /** Maximum number of tags */
+  maxTags?: number;
+  /** Allow the same tag more than once (default: false) */
+  allowDuplicates?: boolean;
+  /** Compare tags case-sensitively when preventing duplicates (default: false) */
+  caseSensitive?: boolean;
+  /** Commit the typed text when the input loses focus (default: true) */
+  addOnBlur?: boolean;
+  /** Called when a tag is rejected */
+  onReject?: (tag: string, reason: ChipInputRejectReason) => void;
+  /** Auto-capitalize */
+  autoCapitalize?: 'none' | 'sentences' | 'words' | 'characters';
+  /** Disabled state */
+  disabled?: boolean;
+  /** Container style */
+  style?: StyleProp<ViewStyle>;
+  /** Input text style */
+  inputStyle?: StyleProp<TextStyle>;
+  /** Test ID for E2E testing */
+  testID?: string;
+}
+
+// =============================================================================
+// COMPONENT IMPLEMENTATION
+// =============================================================================
+
+export const AtomicChipInput: React.FC<AtomicChipInputProps> = ({
+  value,
+  onChange,
+  label,
+  placeholder,
+  helperText,
+  variant = 'outlined',
+  state = 'default',
+  size = 'md',
+  separators = DEFAULT_SEPARATORS,
+  validate,
+  maxTags,
+  allowDuplicates = false,
+  caseSensitive = false,
+  addOnBlur = true,
+  onReject,
+  autoCapitalize = 'none',
+  disabled = false,
+  style,
+  inputStyle,
+  testID,
+}) => {
+  const tokens = useAppDesignTokens();
+  const inputRef = useRef<TextInput>(null);
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [rejectMessage, setRejectMessage] = useState<string | undefined>(undefined);
+
+  const isDisabled = state === 'disabled' || disabled;
+  const isFull = maxTags !== undefined && value.length >= maxTags;
+  const styleState: AtomicInputStyleState = {
+    isFocused,
+    hasError: state === 'error' || !!rejectMessage,
+    hasSuccess: state === 'success',
+    isDisabled,
+  };
+
+  const config = getInputSizeConfig(tokens)[size] ?? getInputSizeConfig(tokens).md;
+
+  /**
+   * Add candidate tags in order, skipping empty, invalid, duplicate and over-limit ones
+   * Returns the tags `validate` rejected so they can stay editable
+   */
+  const commitTags = (candidates: string[]): string[] => {
+    const next = [...value];
+    const invalid: string[] = [];
+    let message: string | undefined;
+
+    for (const candidate of candidates) {
+      const tag = candidate.trim();
+      if (!tag) continue;
+
+      let reason: ChipInputRejectReason | undefined;
+      if (maxTags !== undefined && next.length >= maxTags) {
+        reason = 'max';
+      } else if (!allowDuplicates && next.some(existing => isSameTag(existing, tag, caseSensitive))) {
+        reason = 'duplicate';
+      } else if (validate) {
+        const result = validate(tag);
+        if (result !== true) {
+          reason = 'invalid';
+          if (typeof result === 'string') message = result;
+        }
+      }
+
+      if (reason) {
+        if (reason === 'invalid') invalid.push(tag);
+        onReject?.(tag, reason);
+      } else {
+        next.push(tag);
+      }
+    }
+
+    setRejectMessage(message);
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+    return invalid;
+  };
+
+  const handleChangeText = (text: string) => {
+    const { complete, remainder } = splitTagInput(text, separators);
+    if (complete.length === 0) {
+      if (rejectMessage) setRejectMessage(undefined);
+      setDraft(remainder);
+      return;
+    }
+
+    // A single typed tag that fails validation stays in the input to be fixed
+    const invalid = commitTags(complete);
+    setDraft(complete.length === 1 && invalid.length === 1 && !remainder ? invalid[0] : remainder);
+  };
+
+  const handleSubmitEditing = () => {
+    const invalid = commitTags([draft]);
+    setDraft(invalid.length > 0 ? draft : '');
+  };
+
+  const handleKeyPress = (event: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+    if (event.nativeEvent.key === 'Backspace' && draft === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const fieldStyle: StyleProp<ViewStyle> = [
+    styles.field,
+    getInputVariantStyle(tokens, variant, styleState),
+    {
+      paddingVertical: config.paddingVertical,
+      paddingHorizontal: config.paddingHorizontal,
+      minHeight: config.minHeight,
+      gap: tokens.spacing.xs,
+      opacity: isDisabled ? 0.5 : 1,
+    },
+    style,
+  ];
+
+  const textInputStyle: StyleProp<TextStyle> = [
+    styles.input,
+    {
+      fontSize: config.fontSize,
+      lineHeight: config.fontSize * 1.2,
+      color: getInputTextColor(tokens, styleState),
+    },
+    inputStyle,
+  ];
+
+  const helper = rejectMessage ?? helperText;
+
+  return (
+    <View testID={testID}>
+      {label && (
+        <AtomicText
+          type="labelMedium"
+          color={styleState.hasError ? 'error' : styleState.hasSuccess ? 'success' : 'secondary'}
+          style={styles.label}
+        >
+          {label}
+        </AtomicText>
+      )}
+
+      <Pressable
+        style={fieldStyle}
+        onPress={() => inputRef.current?.focus()}
+        disabled={isDisabled}
+        accessible={false}
+      >
+        {value.map((tag, index) => (
+          <AtomicChip
+            key={`${tag}-${index}`}
+            variant="soft"
+            size="sm"
+            disabled={isDisabled}
+            onClose={() => handleRemove(index)}
+            testID={testID ? `${testID}-chip-${index}` : undefined}
+          >
+            {tag}
+          </AtomicChip>
+        ))}
+
+        <TextInput
+          ref={inputRef}
+          value={draft}
+          onChangeText={handleChangeText}
+          onSubmitEditing={handleSubmitEditing}
+          onKeyPress={handleKeyPress}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          placeholderTextColor={tokens.colors.textSecondary}
+          autoCapitalize={autoCapitalize}
+          autoCorrect={false}
+          blurOnSubmit={false}
+          returnKeyType="done"
+          editable={!isDisabled}
+          style={textInputStyle}
+          accessibilityLabel={label}
+          accessibilityHint={isFull ? undefined : 'Press enter to add a tag'}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (addOnBlur && draft.trim()) {
+              handleSubmitEditing();
+            }
+          }}
+          testID={testID ? `${testID}-input` : undefined}
+        />
+      </Pressable>
+
+      {(helper || maxTags !== undefined) && (
+        <View style={styles.helperRow}>
+          <AtomicText
+            type="bodySmall"
+            color={styleState.hasError ? 'error' : 'secondary'}
+            style={styles.helperText}
+            testID={testID ? `${testID}-helper` : undefined}
+          >
+            {helper}
+          </AtomicText>
+          {maxTags !== undefined && (
+            <AtomicText
+              type="bodySmall"
+              color="secondary"
+              style={styles.tagCount}
+              testID={testID ? `${testID}-count` : undefined}
+            >
+              {value.length}/{maxTags}
+            </AtomicText>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+const DEFAULT_SEPARATORS = [',', ' '];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split typed or pasted text into complete tags and the unfinished remainder
+ * New lines and tabs always separate tags so pasted lists split too
+ */
+const splitTagInput = (text: string, separators: string[]): { complete: string[]; remainder: string } => {
+  const pattern = new RegExp(['\\r?\\n', '\\t', ...separators.map(escapeRegExp)].join('|'));
+  const parts = text.split(pattern);
+  const remainder = parts.pop() ?? '';
+  return { complete: parts, remainder: parts.length > 0 ? remainder.trimStart() : remainder };
+};
+
+const isSameTag = (a: string, b: string, caseSensitive: boolean) =>
+  caseSensitive ? a === b : a.toLocaleLowerCase() === b.toLocaleLowerCase();
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  input: {
+    flexGrow: 1,
+    minWidth: 80,
+    margin: 0,
+    padding: 0,
+    paddingVertical: 0,
+  },
+  label: {
+    marginBottom: 4,
+  },
+  helperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  helperText: {
+    flex: 1,
+  },
+  tagCount: {
+    marginLeft: 8,
+  },
+});
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default AtomicChipInput;
@@ -6,6 +6,7 @@
  *
  * Features:
  * - Platform-specific native pickers (iOS wheel, Android dialog)
+ * - Pure-JS calendar grid with `display="calendar"` (token-themed)
  * - Consistent styling with design tokens
  * - Locale-aware date/time formatting (native Date methods)
  * - Timezone-aware (respects device timezone)
@@ -29,15 +30,27 @@
  * />
  * ```
  *
+ * Calendar display (pure JS month grid, themed with design tokens):
+ * ```tsx
+ * <AtomicDatePicker
+ *   display="calendar"
+ *   value={selectedDate}
+ *   onChange={setSelectedDate}
+ *   locale="en-GB"
+ *   minimumDate={new Date()}
+ * />
+ * ```
+ *
  * Platform Behavior:
- * - Opens bottom sheet from bottom with spinner wheel
+ * - Opens bottom sheet from bottom with spinner wheel (iOS) or calendar grid (`display="calendar"`)
  * - Requires "Done" button to confirm selection
  * - Can be dismissed by swiping down or tapping backdrop
+ * - Calendar: week starts per locale, swipe left/right to change month
  *
  * @module AtomicDatePicker
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -50,9 +63,32 @@ import {
   type ViewStyle,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import { AtomicIcon, type IconColor } from './AtomicIcon';
+import { CalendarMonth } from './datePicker/components/CalendarMonth';
+import { clampDate, getWeekStart, type Weekday } from './datePicker/utils/calendar';
+import {
+  loadNativeDateTimePicker,
+  type NativeDateTimePickerEvent,
+} from './datePicker/utils/nativeDateTimePicker';
+
+export type { Weekday, CalendarDay } from './datePicker/utils/calendar';
+export {
+  getWeekStart,
+  getCalendarWeeks,
+  getWeekdayLabels,
+  addMonths,
+  isDayDisabled,
+} from './datePicker/utils/calendar';
+
+/**
+ * How the picker is shown
+ * - native: platform picker (iOS spinner in a bottom sheet, Android dialog);
+ *   needs the optional @react-native-community/datetimepicker peer; without it, `mode="date"`
+ *   falls back to calendar and time modes are disabled (the calendar cannot pick a time)
+ * - calendar: month grid in a bottom sheet on every platform (dates only, no native module)
+ */
+export type DatePickerDisplay = 'native' | 'calendar';
 
 /**
  * Props for AtomicDatePicker component
@@ -74,6 +110,12 @@ export interface AtomicDatePickerProps {
   maximumDate?: Date;
   /** Picker mode - date, time, or datetime (iOS only) */
   mode?: 'date' | 'time' | 'datetime';
+  /** Native platform picker or the themed calendar grid (default: native) */
+  display?: DatePickerDisplay;
+  /** Locale for calendar labels and week start (default: device locale) */
+  locale?: string;
+  /** First day of the week in the calendar, 0 = Sunday (default: from locale) */
+  weekStartsOn?: Weekday;
   /** Placeholder text when no value selected */
   placeholder?: string;
   /** Optional test ID for E2E testing */
@@ -85,7 +127,7 @@ export interface AtomicDatePickerProps {
 /**
  * AtomicDatePicker - Universal date/time picker component
  *
- * Wraps @react-native-community/datetimepicker with:
+ * Wraps @react-native-community/datetimepicker (loaded lazily, optional) with:
  * - Theme integration
  * - Platform-specific modal handling
  * - Error states
@@ -101,6 +143,9 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
   minimumDate,
   maximumDate,
   mode = 'date',
+  display = 'native',
+  locale,
+  weekStartsOn,
   placeholder = 'Select date',
   testID,
   style,
@@ -108,12 +153,33 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
   const tokens = useAppDesignTokens();
   const insets = useSafeAreaInsets();
   const [showPicker, setShowPicker] = useState(false);
+  const [visibleMonth, setVisibleMonth] = useState(() => value ?? new Date());
+  // The native picker is loaded only when used; without the package, date mode falls back
+  // to the calendar and time modes cannot be picked at all
+  const NativeDateTimePicker = display === 'calendar' ? null : loadNativeDateTimePicker();
+  const isMissingNativePicker = display !== 'calendar' && !NativeDateTimePicker;
+  const isUnavailable = isMissingNativePicker && mode !== 'date';
+  const isCalendar = !NativeDateTimePicker && !isUnavailable;
+  const isDisabled = disabled || isUnavailable;
+
+  useEffect(() => {
+    if (__DEV__ && isMissingNativePicker) {
+      /* eslint-disable-next-line no-console */
+      console.warn(
+        mode === 'date'
+          ? 'AtomicDatePicker: @react-native-community/datetimepicker is not installed, ' +
+              'showing display="calendar" instead'
+          : `AtomicDatePicker: mode="${mode}" needs @react-native-community/datetimepicker, ` +
+              'the picker is disabled until it is installed'
+      );
+    }
+  }, [isMissingNativePicker, mode]);
 
   /**
    * Handle date/time change in picker
    * On Android, directly apply the change. On iOS, show picker in modal and apply on confirm.
    */
-  const handleChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+  const handleChange = (event: NativeDateTimePickerEvent, selectedDate?: Date) => {
     if (Platform.OS === 'android') {
       setShowPicker(false);
       if (event.type === 'set' && selectedDate) {
@@ -135,6 +201,9 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
    * Handle open - show native picker
    */
   const handleOpen = () => {
+    if (isCalendar) {
+      setVisibleMonth(value ?? clampDate(new Date(), minimumDate, maximumDate));
+    }
     if (Platform.OS === 'android') {
       setShowPicker(true);
     } else {
@@ -143,6 +212,17 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
     }
   };
 
+  /**
+   * Handle day press in the calendar
+   * Keeps the time of the current value so datetime values only change date
+   */
+  const handleCalendarSelect = (day: Date) => {
+    const date = value
+      ? new Date(day.getFullYear(), day.getMonth(), day.getDate(), value.getHours(), value.getMinutes(), value.getSeconds())
+      : day;
+    onChange(clampDate(date, minimumDate, maximumDate));
+  };
+
   /**
    * Format date based on mode
    * Uses native Date formatting (locale-aware)
@@ -180,7 +260,7 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
    * Determine icon color based on state
    */
   const getIconColor = (): IconColor => {
-    if (disabled) return 'secondary';
+    if (isDisabled) return 'secondary';
     if (error) return 'error';
     return 'primary';
   };
@@ -199,14 +279,14 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
         style={[
           styles.button,
           error ? styles.buttonError : undefined,
-          disabled ? styles.buttonDisabled : undefined,
+          isDisabled ? styles.buttonDisabled : undefined,
         ]}
         onPress={handleOpen}
-        disabled={disabled}
+        disabled={isDisabled}
         testID={testID ? `${testID}-button` : undefined}
         accessibilityLabel={label || placeholder}
         accessibilityRole="button"
-        accessibilityState={{ disabled }}
+        accessibilityState={{ disabled: isDisabled }}
       >
         <AtomicIcon
           name="Calendar"
@@ -216,7 +296,7 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
         <Text
           style={[
             styles.text,
-            disabled ? styles.textDisabled : undefined,
+            isDisabled ? styles.textDisabled : undefined,
             error ? styles.textError : undefined,
           ]}
         >
@@ -230,8 +310,8 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
         </Text>
       )}
 
-      {/* Native DateTimePicker - Simple and reliable */}
-      {Platform.OS === 'ios' && showPicker ? (
+      {/* Bottom sheet: calendar grid on every platform, native spinner on iOS */}
+      {(isCalendar || Platform.OS === 'ios') && showPicker ? (
         <Modal
           visible={showPicker}
           transparent
@@ -254,20 +334,34 @@ export const AtomicDatePicker: React.FC<AtomicDatePickerProps> = ({
                   <Text style={styles.doneButtonText}>Done</Text>
                 </Pressable>
               </View>
-              <DateTimePicker
-                value={value ?? new Date()}
-                mode={mode}
-                display="spinner"
-                onChange={handleChange}
-                minimumDate={minimumDate}
-                maximumDate={maximumDate}
-                testID={testID ? `${testID}-picker` : undefined}
-              />
+              {!NativeDateTimePicker ? (
+                <CalendarMonth
+                  value={value}
+                  month={visibleMonth}
+                  onMonthChange={setVisibleMonth}
+                  onSelect={handleCalendarSelect}
+                  minimumDate={minimumDate}
+                  maximumDate={maximumDate}
+                  weekStartsOn={weekStartsOn ?? getWeekStart(locale)}
+                  locale={locale}
+                  testID={testID ? `${testID}-calendar` : undefined}
+                />
+              ) : (
+                <NativeDateTimePicker
+                  value={value ?? new Date()}
+                  mode={mode}
+                  display="spinner"
+                  onChange={handleChange}
+                  minimumDate={minimumDate}
+                  maximumDate={maximumDate}
+                  testID={testID ? `${testID}-picker` : undefined}
+                />
+              )}
             </Pressable>
           </Pressable>
         </Modal>
-      ) : showPicker ? (
-        <DateTimePicker
+      ) : showPicker && NativeDateTimePicker ? (
+        <NativeDateTimePicker
           value={value ?? new Date()}
           mode={mode}
           display="default"
@@ -28,7 +28,7 @@ export { FAB_SIZES, getFabVariants, getFabIconSize, getFabBorder };
  *     {/* Your content *\/}
  *   </ScrollView>
  *   <AtomicFab
- *     icon="add"
+ *     icon="Plus"
  *     onPress={handleAddItem}
  *     variant="primary"
  *     size="md"
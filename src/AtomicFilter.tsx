@@ -1,28 +1,33 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { ScrollView, View, TouchableOpacity, ViewStyle } from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import { AtomicChip } from './AtomicChip';
 import { AtomicText } from './AtomicText';
 import { AtomicIcon } from './AtomicIcon';
-import { AtomicFilterProps, FilterOption } from './filter/types';
+import { AtomicBadge } from './AtomicBadge';
+import { AtomicPicker } from './AtomicPicker';
+import { AtomicFilterProps, FilterOption, FilterGroup } from './filter/types';
 import {
   getFilterContainerStyle,
   getClearAllContainerStyle,
   getScrollContentContainerStyle,
+  getGroupHeaderStyle,
 } from './filter/styles/filterStyles';
 
-export type { FilterOption, AtomicFilterProps } from './filter/types';
+export type { FilterOption, FilterGroup, AtomicFilterProps } from './filter/types';
 export {
   getFilterContainerStyle,
   getClearAllContainerStyle,
   getScrollContentContainerStyle,
+  getGroupHeaderStyle,
 } from './filter/styles/filterStyles';
 
 /**
  * AtomicFilter - Horizontal Filter Chip Component
  *
  * A Material Design 3 compliant filter component using chip selection.
- * Supports single and multi-select modes with "Clear All" functionality.
+ * Supports single and multi-select modes with "Clear All" functionality,
+ * grouped options, result counts and overflow into a "More filters" picker.
  *
  * @example
  * ```tsx
@@ -30,15 +35,32 @@ export {
  *
  * <AtomicFilter
  *   options={[
- *     { id: 'active', label: 'Active', icon: 'check-circle' },
- *     { id: 'completed', label: 'Completed', icon: 'check' },
- *     { id: 'pending', label: 'Pending', icon: 'clock' },
+ *     { id: 'active', label: 'Active', icon: 'CircleCheck' },
+ *     { id: 'completed', label: 'Completed', icon: 'Check' },
+ *     { id: 'pending', label: 'Pending', icon: 'Clock' },
  *   ]}
  *   selectedIds={selectedFilters}
  *   onSelectionChange={setSelectedFilters}
  *   multiSelect={true}
  *   showClearAll={true}
  * />
+ *
+ * // Grouped: single-select per group, extra options behind "More filters"
+ * <AtomicFilter
+ *   groups={[
+ *     { id: 'status', label: 'Status' },
+ *     { id: 'owner', label: 'Owner' },
+ *   ]}
+ *   options={[
+ *     { id: 'active', label: 'Active', group: 'status', count: 12 },
+ *     { id: 'archived', label: 'Archived', group: 'status', count: 0, disabled: true },
+ *     { id: 'me', label: 'Me', group: 'owner' },
+ *     { id: 'team', label: 'My team', group: 'owner' },
+ *   ]}
+ *   selectedIds={selectedFilters}
+ *   onSelectionChange={setSelectedFilters}
+ *   maxVisible={3}
+ * />
  * ```
  *
  * Features:
@@ -47,13 +69,19 @@ export {
  * - Clear all button (when filters active)
  * - Theme-aware colors from design tokens
  * - Icon support per filter option
+ * - Count badges and disabled options
+ * - Option groups with headers and per-group selection mode
+ * - Overflow into a "More filters" multi-select picker
  * - Fully controlled component
  */
 export const AtomicFilter: React.FC<AtomicFilterProps> = ({
   options,
+  groups,
   selectedIds,
   onSelectionChange,
   multiSelect = true,
+  maxVisible,
+  moreLabel = 'More filters',
   showClearAll = true,
   variant = 'outlined',
   color = 'primary',
@@ -63,31 +91,106 @@ export const AtomicFilter: React.FC<AtomicFilterProps> = ({
 }) => {
   const tokens = useAppDesignTokens();
 
+  /**
+   * Sections in display order: ungrouped options first, then each group
+   */
+  const sections = useMemo(() => {
+    const groupIds = new Set((groups ?? []).map(group => group.id));
+    const ungrouped = options.filter(option => !option.group || !groupIds.has(option.group));
+    return [
+      ...(ungrouped.length > 0 ? [{ group: undefined, options: ungrouped }] : []),
+      ...(groups ?? []).map(group => ({
+        group,
+        options: options.filter(option => option.group === group.id),
+      })),
+    ].filter(section => section.options.length > 0);
+  }, [options, groups]);
+
+  // Options past `maxVisible` collapse into the "More filters" chip
+  const orderedOptions = sections.flatMap(section => section.options);
+  const hasOverflow = maxVisible !== undefined && orderedOptions.length > maxVisible;
+  const visibleIds = new Set(
+    (hasOverflow ? orderedOptions.slice(0, maxVisible) : orderedOptions).map(option => option.id)
+  );
+  const hiddenOptions = orderedOptions.filter(option => !visibleIds.has(option.id));
+  const hiddenSelectedIds = selectedIds.filter(id => hiddenOptions.some(option => option.id === id));
+
+  const getGroup = (option: FilterOption): FilterGroup | undefined =>
+    groups?.find(group => group.id === option.group);
+
   /**
    * Handle filter chip press
+   * - Grouped options follow their group's mode (single-select by default)
+   * - Ungrouped options follow `multiSelect`
+   * - Single-select replaces the selection within the option's group only
    */
   const handleFilterPress = (optionId: string) => {
-    if (multiSelect) {
-      // Multi-select mode: Toggle selection
-      if (selectedIds.includes(optionId)) {
-        // Deselect
-        onSelectionChange(selectedIds.filter(id => id !== optionId));
-      } else {
-        // Select
-        onSelectionChange([...selectedIds, optionId]);
-      }
+    const option = options.find(item => item.id === optionId);
+    if (!option || option.disabled) return;
+
+    if (selectedIds.includes(optionId)) {
+      // Deselect
+      onSelectionChange(selectedIds.filter(id => id !== optionId));
+      return;
+    }
+
+    const group = getGroup(option);
+    const isMultiSelect = group ? group.multiSelect ?? false : multiSelect;
+
+    if (isMultiSelect) {
+      onSelectionChange([...selectedIds, optionId]);
     } else {
-      // Single-select mode: Replace selection
-      if (selectedIds.includes(optionId)) {
-        // Deselect (clear selection)
-        onSelectionChange([]);
-      } else {
-        // Select (only this one)
-        onSelectionChange([optionId]);
-      }
+      // Select (only this one within its group)
+      const scopeIds = (sections.find(section => section.group === group)?.options ?? []).map(item => item.id);
+      onSelectionChange([...selectedIds.filter(id => !scopeIds.includes(id)), optionId]);
     }
   };
 
+  /**
+   * Handle a toggle from the overflow picker (it toggles one option at a time)
+   */
+  const handleOverflowChange = (values: string | string[]) => {
+    const nextValues = Array.isArray(values) ? values : [values];
+    const toggledId =
+      nextValues.find(id => !hiddenSelectedIds.includes(id)) ??
+      hiddenSelectedIds.find(id => !nextValues.includes(id));
+    if (toggledId) {
+      handleFilterPress(toggledId);
+    }
+  };
+
+  const renderCount = (chip: React.ReactElement, key: string, count: number | undefined, showZero: boolean) =>
+    count === undefined ? (
+      chip
+    ) : (
+      <AtomicBadge key={key} anchor={chip} size="sm" variant={color} max={99} showZero={showZero}>
+        {count}
+      </AtomicBadge>
+    );
+
+  const renderOption = (option: FilterOption) => {
+    const isSelected = selectedIds.includes(option.id);
+
+    const chip = (
+      <AtomicChip
+        key={option.id}
+        variant={isSelected ? 'filled' : variant}
+        color={color}
+        size={size}
+        leadingIcon={option.icon}
+        selected={isSelected}
+        disabled={option.disabled}
+        clickable={true}
+        onPress={() => handleFilterPress(option.id)}
+        testID={`filter-chip-${option.id}`}
+      >
+        {option.label}
+      </AtomicChip>
+    );
+
+    return renderCount(chip, option.id, option.count, true);
+  };
+
   /**
    * Handle clear all button press
    */
@@ -106,26 +209,62 @@ export const AtomicFilter: React.FC<AtomicFilterProps> = ({
       testID={testID}
     >
       <View style={getFilterContainerStyle()}>
-        {options.map((option) => {
-          const isSelected = selectedIds.includes(option.id);
+        {sections.map((section) => {
+          const sectionOptions = section.options.filter(option => visibleIds.has(option.id));
+          if (sectionOptions.length === 0) return null;
 
           return (
-            <AtomicChip
-              key={option.id}
-              variant={isSelected ? 'filled' : variant}
-              color={color}
-              size={size}
-              leadingIcon={option.icon}
-              selected={isSelected}
-              clickable={true}
-              onPress={() => handleFilterPress(option.id)}
-              testID={`filter-chip-${option.id}`}
-            >
-              {option.label}
-            </AtomicChip>
+            <React.Fragment key={section.group?.id ?? 'ungrouped'}>
+              {section.group && (
+                <View style={getGroupHeaderStyle()} accessibilityRole="header">
+                  <AtomicText type="labelSmall" style={{ color: tokens.colors.textSecondary }}>
+                    {section.group.label}
+                  </AtomicText>
+                </View>
+              )}
+              {sectionOptions.map(renderOption)}
+            </React.Fragment>
           );
         })}
 
+        {/* More Filters (overflow) */}
+        {hasOverflow && (
+          <AtomicPicker
+            value={hiddenSelectedIds}
+            onChange={handleOverflowChange}
+            options={hiddenOptions.map(option => ({
+              label: option.label,
+              value: option.id,
+              icon: option.icon,
+              disabled: option.disabled,
+              description: getGroup(option)?.label,
+            }))}
+            multiple
+            autoClose={false}
+            modalTitle={moreLabel}
+            testID="filter-more"
+            renderTrigger={({ open }) =>
+              renderCount(
+                <AtomicChip
+                  variant={hiddenSelectedIds.length > 0 ? 'filled' : variant}
+                  color={color}
+                  size={size}
+                  trailingIcon="ChevronDown"
+                  selected={hiddenSelectedIds.length > 0}
+                  clickable={true}
+                  onPress={open}
+                  testID="filter-more-chip"
+                >
+                  {moreLabel}
+                </AtomicChip>,
+                'more',
+                hiddenSelectedIds.length > 0 ? hiddenSelectedIds.length : undefined,
+                false
+              )
+            }
+          />
+        )}
+
         {/* Clear All Button */}
         {showClearAll && hasActiveFilters && (
           <TouchableOpacity
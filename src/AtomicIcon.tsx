@@ -1,14 +1,17 @@
 /**
  * AtomicIcon - Atomic Design System Icon Component
  *
- * Direct implementation using lucide-react-native
- * No unnecessary abstraction layer - simple and efficient
+ * Resolves names through the icon registry (see IconRegistryProvider)
+ * Lucide is the default icon set; `prefix:name` targets registered sets
  */
 
 import React from 'react';
 import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
-import * as LucideIcons from 'lucide-react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { useIconRegistry } from './icon/registry/IconRegistryProvider';
+import { resolveIcon, getIconSuggestion } from './icon/registry/iconRegistry';
+import type { MaterialIconAlias } from './icon/registry/iconAliases';
+import type { LucideIconName } from './icon/types';
 
 export type IconSize = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl';
 export type IconColor =
@@ -24,9 +27,33 @@ export type IconColor =
   | 'onSecondary'
   | 'textInverse';
 
-// IconName type: Accepts both Lucide icon names and string for flexibility
-// Runtime validation ensures only valid Lucide icons are used
-export type IconName = string;
+export type { LucideIconName, MaterialIconAlias };
+
+/**
+ * Icon name from a set registered with IconRegistryProvider (e.g. `material:add`)
+ */
+export type PrefixedIconName = `${string}:${string}`;
+
+/**
+ * Icon name options - augment to opt into arbitrary string icon names
+ * (augment the declaring module; re-exports cannot be augmented)
+ *
+ * @example
+ * ```ts
+ * declare module '@umituz/react-native-design-system-atoms/src/AtomicIcon' {
+ *   interface IconNameOptions {
+ *     allowAnyString: true;
+ *   }
+ * }
+ * ```
+ */
+export interface IconNameOptions {}
+
+// IconName type: Lucide names, built-in aliases and prefixed names unless the app opts into plain strings
+// Runtime validation still warns about unknown names in development
+export type IconName = IconNameOptions extends { allowAnyString: true }
+  ? LucideIconName | MaterialIconAlias | PrefixedIconName | (string & {})
+  : LucideIconName | MaterialIconAlias | PrefixedIconName;
 
 const ICON_SIZES: Record<IconSize, number> = {
   xs: 16,
@@ -38,7 +65,7 @@ const ICON_SIZES: Record<IconSize, number> = {
 };
 
 export interface IconProps {
-  /** Lucide icon name (PascalCase) */
+  /** Lucide icon name (PascalCase), a Material alias (`add`) or `prefix:name` from a registered icon set */
   name: IconName;
   /** Semantic size */
   size?: IconSize;
@@ -77,6 +104,9 @@ export interface IconProps {
  *
  * // With background
  * <AtomicIcon name="Info" size="lg" withBackground backgroundColor="#667eea" />
+ *
+ * // From a registered icon set
+ * <AtomicIcon name="material:add" size="md" />
  * ```
  */
 export const AtomicIcon: React.FC<IconProps> = ({
@@ -93,20 +123,19 @@ export const AtomicIcon: React.FC<IconProps> = ({
   style,
 }) => {
   const tokens = useAppDesignTokens();
+  const registry = useIconRegistry();
 
-  // Get icon component from Lucide
-  // Use type assertion to handle string index access
-  const IconComponent = (LucideIcons as unknown as Record<string, React.ComponentType<{
-    size?: number;
-    color?: string;
-    strokeWidth?: number;
-    style?: StyleProp<ViewStyle>;
-  }>>)[name];
+  // Get icon component from the registry (Lucide by default)
+  const IconComponent = resolveIcon(registry, name);
 
   if (!IconComponent) {
     /* eslint-disable-next-line no-console */
     if (__DEV__) {
-      console.warn(`Icon "${name}" not found in Lucide icons`);
+      const suggestion = getIconSuggestion(registry, name);
+      console.warn(
+        `Icon "${name}" not found in registered icon sets` +
+          (suggestion ? `. Did you mean "${suggestion}"?` : '')
+      );
     }
     return null;
   }
@@ -14,19 +14,42 @@
  * - Background images
  */
 
-import React from 'react';
-import { Image, ImageProps, StyleSheet, ViewStyle } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Animated,
+  ImageProps,
+  StyleSheet,
+  ViewStyle,
+  DimensionValue,
+  NativeSyntheticEvent,
+  ImageErrorEventData,
+  ImageLoadEventData,
+} from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicSkeleton } from './AtomicSkeleton';
+import { AtomicIcon } from './AtomicIcon';
+import type { IconName } from './AtomicIcon';
+import { useReduceMotion } from './hooks/useReduceMotion';
+import { HashPlaceholder } from './image/components/HashPlaceholder';
+import type { PlaceholderHashType } from './image/types';
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
+export type AtomicImageSizeVariant = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl';
+
+/**
+ * Image size - a size variant, a size in pixels, or a full-width aspect ratio
+ */
+export type AtomicImageSize = AtomicImageSizeVariant | number | { aspectRatio: number };
+
 export interface AtomicImageProps extends Omit<ImageProps, 'style'> {
   /** Image source */
   source: ImageProps['source'];
-  /** Size variant */
-  size?: 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl';
+  /** Size variant, pixel size, or `{ aspectRatio }` for full-width images */
+  size?: AtomicImageSize;
   /** Shape variant */
   shape?: 'square' | 'circle' | 'rounded';
   /** Border radius override */
@@ -41,8 +64,22 @@ export interface AtomicImageProps extends Omit<ImageProps, 'style'> {
   borderColor?: string;
   /** Border width */
   borderWidth?: number;
+  /** Show a skeleton of the image size and shape instead of the image */
+  loading?: boolean;
+  /** Placeholder color while the image loads (default: surfaceVariant) */
+  placeholderColor?: string;
+  /** Shown when the image fails to load - an icon name or a custom node (default: ImageOff icon) */
+  errorFallback?: IconName | React.ReactNode;
+  /** Fade-in duration in ms once loaded, 0 to disable (skipped when reduce motion is on) */
+  fadeInDuration?: number;
+  /** Blurhash (or base64 thumbhash) rendered under the image until it loads */
+  placeholderHash?: string;
+  /** Format of `placeholderHash` (default: blurhash) */
+  placeholderHashType?: PlaceholderHashType;
 }
 
+type ImageLoadStatus = 'loading' | 'loaded' | 'error';
+
 // =============================================================================
 // SIZE CONFIGURATION
 // =============================================================================
@@ -70,21 +107,83 @@ export const AtomicImage: React.FC<AtomicImageProps> = ({
   backgroundColor,
   borderColor,
   borderWidth = 0,
+  loading = false,
+  placeholderColor,
+  errorFallback = 'ImageOff',
+  fadeInDuration = 200,
+  placeholderHash,
+  placeholderHashType = 'blurhash',
+  onLoadStart,
+  onLoad,
+  onError,
   ...props
 }) => {
   const tokens = useAppDesignTokens();
   const styles = getStyles(tokens);
+  const reduceMotion = useReduceMotion();
+
+  const [status, setStatus] = useState<ImageLoadStatus>('loading');
+  const [isFadeComplete, setIsFadeComplete] = useState(false);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  // Restart the load cycle whenever the source changes
+  const sourceKey = getSourceKey(source);
+  useEffect(() => {
+    setStatus('loading');
+    setIsFadeComplete(false);
+    opacity.setValue(0);
+  }, [sourceKey, opacity]);
+
+  const dimensions = getImageDimensions(size);
+  const calculatedBorderRadius = borderRadius ?? getBorderRadius(shape as 'square' | 'circle' | 'rounded', dimensions.size, tokens);
+
+  if (loading) {
+    return (
+      <AtomicSkeleton
+        width={dimensions.width}
+        height={dimensions.height}
+        borderRadius={calculatedBorderRadius}
+        style={[{ aspectRatio: dimensions.aspectRatio }, style]}
+        testID={props.testID}
+      />
+    );
+  }
 
-  const imageSize = SIZE_CONFIG[size as 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl'];
-  const calculatedBorderRadius = borderRadius ?? getBorderRadius(shape as 'square' | 'circle' | 'rounded', imageSize, tokens);
+  const handleLoadStart = () => {
+    setStatus('loading');
+    onLoadStart?.();
+  };
+
+  const handleLoad = (event: NativeSyntheticEvent<ImageLoadEventData>) => {
+    setStatus('loaded');
+    if (fadeInDuration > 0 && !reduceMotion) {
+      Animated.timing(opacity, {
+        toValue: 1,
+        duration: fadeInDuration,
+        useNativeDriver: true,
+      }).start(() => setIsFadeComplete(true));
+    } else {
+      opacity.setValue(1);
+      setIsFadeComplete(true);
+    }
+    onLoad?.(event);
+  };
+
+  const handleError = (event: NativeSyntheticEvent<ImageErrorEventData>) => {
+    setStatus('error');
+    onError?.(event);
+  };
 
   const containerStyle = [
     styles.container,
     {
-      width: imageSize,
-      height: imageSize,
+      width: dimensions.width,
+      height: dimensions.height,
+      aspectRatio: dimensions.aspectRatio,
       borderRadius: calculatedBorderRadius,
-      backgroundColor: backgroundColor || tokens.colors.surface,
+      backgroundColor: status === 'loaded'
+        ? backgroundColor || tokens.colors.surface
+        : placeholderColor || tokens.colors.surfaceVariant,
       borderColor: borderColor || tokens.colors.border,
       borderWidth,
     },
@@ -95,16 +194,47 @@ export const AtomicImage: React.FC<AtomicImageProps> = ({
     styles.image,
     {
       borderRadius: calculatedBorderRadius,
+      opacity,
     },
     imageStyle,
   ];
 
+  const renderErrorFallback = () => {
+    if (typeof errorFallback === 'string') {
+      return (
+        <AtomicIcon
+          name={errorFallback as IconName}
+          size={getFallbackIconSize(dimensions.size)}
+          customColor={tokens.colors.textSecondary}
+        />
+      );
+    }
+    return errorFallback;
+  };
+
   return (
-    <Image
-      source={source}
-      style={finalImageStyle}
-      {...props}
-    />
+    <View style={containerStyle}>
+      {/* Hash placeholder stays underneath until the image has fully faded in */}
+      {placeholderHash && status !== 'error' && !isFadeComplete ? (
+        <HashPlaceholder
+          hash={placeholderHash}
+          type={placeholderHashType}
+          aspectRatio={dimensions.aspectRatio ?? 1}
+        />
+      ) : null}
+      {status === 'error' ? (
+        renderErrorFallback()
+      ) : (
+        <Animated.Image
+          source={source}
+          style={finalImageStyle}
+          onLoadStart={handleLoadStart}
+          onLoad={handleLoad}
+          onError={handleError}
+          {...props}
+        />
+      )}
+    </View>
   );
 };
 
@@ -112,10 +242,37 @@ export const AtomicImage: React.FC<AtomicImageProps> = ({
 // HELPER FUNCTIONS
 // =============================================================================
 
-const getBorderRadius = (shape: AtomicImageProps['shape'], size: number, tokens: ReturnType<typeof useAppDesignTokens>): number => {
+const getImageDimensions = (size: AtomicImageSize): {
+  width: DimensionValue;
+  height: DimensionValue;
+  aspectRatio: number | undefined;
+  size: number | undefined;
+} => {
+  if (typeof size === 'object') {
+    return { width: '100%', height: 'auto', aspectRatio: size.aspectRatio, size: undefined };
+  }
+  const pixels = typeof size === 'number' ? size : SIZE_CONFIG[size];
+  return { width: pixels, height: pixels, aspectRatio: undefined, size: pixels };
+};
+
+const getFallbackIconSize = (size: number | undefined): 'xs' | 'sm' | 'md' | 'lg' => {
+  if (size === undefined) return 'lg';
+  if (size <= 32) return 'xs';
+  if (size <= 64) return 'sm';
+  if (size <= 96) return 'md';
+  return 'lg';
+};
+
+const getSourceKey = (source: ImageProps['source']): string => {
+  if (typeof source === 'number') return String(source);
+  if (Array.isArray(source)) return source.map(item => item.uri).join('|');
+  return source?.uri ?? '';
+};
+
+const getBorderRadius = (shape: AtomicImageProps['shape'], size: number | undefined, tokens: ReturnType<typeof useAppDesignTokens>): number => {
   switch (shape) {
     case 'circle':
-      return size / 2;
+      return size !== undefined ? size / 2 : tokens.borders.radius.full;
     case 'square':
       return 0;
     case 'rounded':
@@ -136,6 +293,7 @@ const getStyles = (tokens: ReturnType<typeof useAppDesignTokens>) =>
       alignItems: 'center',
     },
     image: {
+      ...StyleSheet.absoluteFillObject,
       width: '100%',
       height: '100%',
       resizeMode: 'cover',
@@ -9,6 +9,109 @@ export type AtomicInputVariant = 'outlined' | 'filled' | 'flat';
 export type AtomicInputState = 'default' | 'error' | 'success' | 'disabled';
 export type AtomicInputSize = 'sm' | 'md' | 'lg';
 
+type DesignTokens = ReturnType<typeof useAppDesignTokens>;
+
+/**
+ * Interaction state used to style an input field
+ */
+export interface AtomicInputStyleState {
+  isFocused: boolean;
+  hasError: boolean;
+  hasSuccess: boolean;
+  isDisabled: boolean;
+}
+
+/**
+ * Size configuration shared by AtomicInput and inputs built on its styling
+ */
+export const getInputSizeConfig = (tokens: DesignTokens) => ({
+  sm: {
+    paddingVertical: tokens.spacing.xs,
+    paddingHorizontal: tokens.spacing.sm,
+    fontSize: tokens.typography.bodySmall.fontSize,
+    iconSize: 16,
+    minHeight: 40,
+  },
+  md: {
+    paddingVertical: tokens.spacing.sm,
+    paddingHorizontal: tokens.spacing.md,
+    fontSize: tokens.typography.bodyMedium.fontSize,
+    iconSize: 20,
+    minHeight: 48,
+  },
+  lg: {
+    paddingVertical: tokens.spacing.md,
+    paddingHorizontal: tokens.spacing.lg,
+    fontSize: tokens.typography.bodyLarge.fontSize,
+    iconSize: 24,
+    minHeight: 56,
+  },
+});
+
+/**
+ * Field container style for a variant in the given state
+ */
+export const getInputVariantStyle = (
+  tokens: DesignTokens,
+  variant: AtomicInputVariant,
+  { isFocused, hasError, hasSuccess, isDisabled }: AtomicInputStyleState
+): ViewStyle => {
+  const baseStyle: ViewStyle = {
+    backgroundColor: tokens.colors.surface,
+    borderRadius: tokens.borders.radius.md,
+  };
+
+  let borderColor = tokens.colors.border;
+  if (isFocused) borderColor = tokens.colors.primary;
+  if (hasError) borderColor = tokens.colors.error;
+  if (hasSuccess) borderColor = tokens.colors.success;
+  if (isDisabled) borderColor = tokens.colors.borderDisabled;
+
+  switch (variant) {
+    case 'outlined':
+      return {
+        ...baseStyle,
+        borderWidth: isFocused ? 2 : 1,
+        borderColor,
+      };
+
+    case 'filled':
+      return {
+        ...baseStyle,
+        backgroundColor: tokens.colors.surfaceSecondary,
+        borderWidth: 0,
+        borderBottomWidth: isFocused ? 2 : 1,
+        borderBottomColor: borderColor,
+      };
+
+    case 'flat':
+      return {
+        ...baseStyle,
+        backgroundColor: 'transparent',
+        borderWidth: 0,
+        borderBottomWidth: 1,
+        borderBottomColor: borderColor,
+        borderRadius: 0,
+      };
+
+    default:
+      return baseStyle;
+  }
+};
+
+/**
+ * Input text color for the given state
+ */
+export const getInputTextColor = (
+  tokens: DesignTokens,
+  { hasError, hasSuccess, isDisabled }: AtomicInputStyleState
+): string => {
+  if (isDisabled) return tokens.colors.textDisabled;
+  if (hasError) return tokens.colors.error;
+  if (hasSuccess) return tokens.colors.success;
+  return tokens.colors.textPrimary;
+};
+
 export interface AtomicInputProps {
   /** Input label */
   label?: string;
@@ -107,29 +210,7 @@ export const AtomicInput: React.FC<AtomicInputProps> = ({
   const hasSuccess = state === 'success';
 
   // Size configuration
-  const sizeConfig = {
-    sm: {
-      paddingVertical: tokens.spacing.xs,
-      paddingHorizontal: tokens.spacing.sm,
-      fontSize: tokens.typography.bodySmall.fontSize,
-      iconSize: 16,
-      minHeight: 40,
-    },
-    md: {
-      paddingVertical: tokens.spacing.sm,
-      paddingHorizontal: tokens.spacing.md,
-      fontSize: tokens.typography.bodyMedium.fontSize,
-      iconSize: 20,
-      minHeight: 48,
-    },
-    lg: {
-      paddingVertical: tokens.spacing.md,
-      paddingHorizontal: tokens.spacing.lg,
-      fontSize: tokens.typography.bodyLarge.fontSize,
-      iconSize: 24,
-      minHeight: 56,
-    },
-  };
+  const sizeConfig = getInputSizeConfig(tokens);
 
   const config = sizeConfig[size] ?? sizeConfig.md;
   
@@ -140,64 +221,13 @@ export const AtomicInput: React.FC<AtomicInputProps> = ({
   const paddingHorizontal = config?.paddingHorizontal ?? tokens.spacing?.md ?? 12;
   const minHeight = config?.minHeight ?? 48;
 
-  // Get variant styles
-  const getVariantStyle = (): ViewStyle => {
-    const baseStyle: ViewStyle = {
-      backgroundColor: tokens.colors.surface,
-      borderRadius: tokens.borders.radius.md,
-    };
-
-    let borderColor = tokens.colors.border;
-    if (isFocused) borderColor = tokens.colors.primary;
-    if (hasError) borderColor = tokens.colors.error;
-    if (hasSuccess) borderColor = tokens.colors.success;
-    if (isDisabled) borderColor = tokens.colors.borderDisabled;
-
-    switch (variant) {
-      case 'outlined':
-        return {
-          ...baseStyle,
-          borderWidth: isFocused ? 2 : 1,
-          borderColor,
-        };
-
-      case 'filled':
-        return {
-          ...baseStyle,
-          backgroundColor: tokens.colors.surfaceSecondary,
-          borderWidth: 0,
-          borderBottomWidth: isFocused ? 2 : 1,
-          borderBottomColor: borderColor,
-        };
-
-      case 'flat':
-        return {
-          ...baseStyle,
-          backgroundColor: 'transparent',
-          borderWidth: 0,
-          borderBottomWidth: 1,
-          borderBottomColor: borderColor,
-          borderRadius: 0,
-        };
-
-      default:
-        return baseStyle;
-    }
-  };
-
-  // Get text color based on state
-  const getTextColor = () => {
-    if (isDisabled) return tokens.colors.textDisabled;
-    if (hasError) return tokens.colors.error;
-    if (hasSuccess) return tokens.colors.success;
-    return tokens.colors.textPrimary;
-  };
+  const styleState: AtomicInputStyleState = { isFocused, hasError, hasSuccess, isDisabled };
 
   const iconColor = isDisabled ? tokens.colors.textDisabled : tokens.colors.textSecondary;
 
   const containerStyle: StyleProp<ViewStyle> = [
     styles.container,
-    getVariantStyle(),
+    getInputVariantStyle(tokens, variant, styleState),
     {
       paddingTop: paddingVertical,
       paddingBottom: paddingVertical,
@@ -214,7 +244,7 @@ export const AtomicInput: React.FC<AtomicInputProps> = ({
     {
       fontSize: fontSize,
       lineHeight: fontSize * 1.2, // Tighter lineHeight to prevent text clipping
-      color: getTextColor(),
+      color: getInputTextColor(tokens, styleState),
       paddingVertical: 0, // Remove vertical padding to prevent clipping
     },
     leadingIcon ? { paddingLeft: iconSize + 8 } : undefined,
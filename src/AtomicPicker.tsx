@@ -27,9 +27,9 @@
  *   value={partyType}
  *   onChange={setPartyType}
  *   options={[
- *     { label: 'Birthday Party', value: 'birthday', icon: 'cake' },
- *     { label: 'Wedding', value: 'wedding', icon: 'heart' },
- *     { label: 'Corporate Event', value: 'corporate', icon: 'briefcase' },
+ *     { label: 'Birthday Party', value: 'birthday', icon: 'Cake' },
+ *     { label: 'Wedding', value: 'wedding', icon: 'Heart' },
+ *     { label: 'Corporate Event', value: 'corporate', icon: 'Briefcase' },
  *   ]}
  *   label="Party Type"
  *   placeholder="Select party type"
@@ -55,6 +55,7 @@ import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import { AtomicPickerProps, PickerOption } from './picker/types';
 import { AtomicIcon } from './AtomicIcon';
 import { AtomicText } from './AtomicText';
+import { AtomicChip } from './AtomicChip';
 import {
   getPickerContainerStyles,
   getPickerLabelStyles,
@@ -73,11 +74,9 @@ import {
   getEmptyStateStyles,
   getEmptyStateTextStyles,
   getChipContainerStyles,
-  getChipStyles,
-  getChipTextStyles,
 } from './picker/styles/pickerStyles';
 
-export type { AtomicPickerProps, PickerOption, PickerSize } from './picker/types';
+export type { AtomicPickerProps, PickerOption, PickerSize, PickerTriggerProps } from './picker/types';
 
 /**
  * AtomicPicker - Universal option picker component
@@ -103,6 +102,7 @@ export const AtomicPicker: React.FC<AtomicPickerProps> = ({
   emptyMessage = 'No options available',
   style,
   labelStyle,
+  renderTrigger,
   testID,
 }) => {
   const tokens = useAppDesignTokens();
@@ -127,8 +127,6 @@ export const AtomicPicker: React.FC<AtomicPickerProps> = ({
   const emptyStateStyles = getEmptyStateStyles(tokens);
   const emptyStateTextStyles = getEmptyStateTextStyles(tokens);
   const chipContainerStyles = getChipContainerStyles(tokens);
-  const chipStyles = getChipStyles(tokens);
-  const chipTextStyles = getChipTextStyles(tokens);
 
   /**
    * Normalize value to array for consistent handling
@@ -291,18 +289,17 @@ export const AtomicPicker: React.FC<AtomicPickerProps> = ({
     return (
       <View style={chipContainerStyles}>
         {selectedOptions.map((opt) => (
-          <View key={opt.value} style={chipStyles}>
-            <AtomicText style={chipTextStyles}>{opt.label}</AtomicText>
-            <TouchableOpacity
-              onPress={(e) => {
-                e.stopPropagation();
-                handleSelect(opt.value);
-              }}
-              hitSlop={{ top: 4, bottom: 4, left: 4, right: 4 }}
-            >
-              <AtomicIcon name="X" size="sm" color="primary" />
-            </TouchableOpacity>
-          </View>
+          <AtomicChip
+            key={opt.value}
+            variant="soft"
+            size="sm"
+            leadingIcon={opt.icon}
+            disabled={disabled}
+            onClose={() => handleSelect(opt.value)}
+            testID={`${testID}-chip-${opt.value}`}
+          >
+            {opt.label}
+          </AtomicChip>
         ))}
       </View>
     );
@@ -329,8 +326,8 @@ export const AtomicPicker: React.FC<AtomicPickerProps> = ({
       : placeholderStyles.size[size],
   ]);
 
-  return (
-    <View>
+  const renderField = () => (
+    <>
       {/* Label */}
       {label && <AtomicText style={pickerLabelStyle}>{label}</AtomicText>}
 
@@ -378,6 +375,14 @@ export const AtomicPicker: React.FC<AtomicPickerProps> = ({
 
       {/* Error Message */}
       {error && <AtomicText style={errorStyles}>{error}</AtomicText>}
+    </>
+  );
+
+  return (
+    <View>
+      {renderTrigger
+        ? renderTrigger({ open: openModal, isOpen: modalVisible, selectedOptions, disabled })
+        : renderField()}
 
       {/* Selection Modal */}
       <Modal
@@ -1,12 +1,77 @@
-import React from 'react';
-import { View, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
-import type { StyleProp, ViewStyle, TextStyle } from 'react-native';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { View, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet, Platform } from 'react-native';
+import type { StyleProp, ViewStyle, TextStyle, NativeSyntheticEvent, TextInputKeyPressEventData } from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import { AtomicIcon } from './AtomicIcon';
+import { AtomicText } from './AtomicText';
+import { AtomicChip } from './AtomicChip';
+import { SearchHistoryStorage, SearchSuggestionItem, SearchToken, SearchQuery } from './search/types';
+import { memorySearchHistoryStorage } from './search/storage/memorySearchHistoryStorage';
+import { useSearchHistory } from './search/hooks/useSearchHistory';
+import { SearchSuggestionList } from './search/components/SearchSuggestionList';
+import { extractSearchTokens, formatSearchQuery, formatSearchToken } from './search/utils/searchTokens';
+
+export type {
+  SearchHistoryStorage,
+  SearchSuggestionItem,
+  SearchSuggestionKind,
+  HighlightSegment,
+  SearchToken,
+  SearchQuery,
+} from './search/types';
+export {
+  createMemorySearchHistoryStorage,
+  memorySearchHistoryStorage,
+} from './search/storage/memorySearchHistoryStorage';
+export { highlightMatches } from './search/utils/highlightMatches';
+export { extractSearchTokens, formatSearchQuery, formatSearchToken } from './search/utils/searchTokens';
 
 export interface AtomicSearchBarProps {
   value: string;
   onChangeText: (text: string) => void;
+  /** Called with the text once typing pauses for `debounceDelay` ms (immediately on clear and submit) */
+  onDebouncedChange?: (text: string) => void;
+  /** Debounce delay for `onDebouncedChange` in ms (default: 300) */
+  debounceDelay?: number;
+  /** Show a spinner in place of the clear button */
+  loading?: boolean;
+  /** Show an iOS-style Cancel button while focused; it clears and blurs the input */
+  showCancelButton?: boolean;
+  /** Cancel button text (default: Cancel) */
+  cancelText?: string;
+  /** Called after the Cancel button clears and blurs the input */
+  onCancel?: () => void;
+  /** Called with the query on keyboard submit or when a suggestion is chosen */
+  onSearch?: (query: string) => void;
+  /** Show recent searches and `suggestions` under the field while focused */
+  showSuggestions?: boolean;
+  /** Caller-provided suggestions, shown after matching recent searches */
+  suggestions?: string[];
+  /**
+   * Highlight the first suggestion while typing so the keyboard's search key submits it
+   * (arrow-key highlighting only works on web, where TextInput reports arrow keys)
+   */
+  highlightFirstSuggestion?: boolean;
+  /** Remember submitted queries as recent searches (default: true) */
+  saveRecentSearches?: boolean;
+  /** Where recent searches are kept (default: in-memory for the app session) */
+  historyStorage?: SearchHistoryStorage;
+  /** Storage key, to keep separate histories per screen (default: atomic-search-history) */
+  historyKey?: string;
+  /** Maximum number of recent searches kept (default: 5) */
+  maxRecentSearches?: number;
+  /** "Clear history" button text */
+  clearHistoryText?: string;
+  /** Suggestion dropdown style overrides */
+  suggestionsStyle?: StyleProp<ViewStyle>;
+  /** Keys parsed into scope chips when typed as `key:value` (e.g. ['in', 'status']) */
+  tokenKeys?: string[];
+  /** Current scope tokens, shown as chips before the input */
+  searchTokens?: SearchToken[];
+  /** Called with the new tokens when one is typed or removed */
+  onSearchTokensChange?: (tokens: SearchToken[]) => void;
+  /** Called with the tokens and free text whenever either changes */
+  onQueryChange?: (query: SearchQuery) => void;
   placeholder?: string;
   autoFocus?: boolean;
   editable?: boolean;
@@ -18,11 +83,41 @@ export interface AtomicSearchBarProps {
   inputStyle?: StyleProp<TextStyle>;
   accessibilityLabel?: string;
   accessibilityHint?: string;
+  testID?: string;
+}
+
+/**
+ * Imperative handle exposed through `ref`
+ */
+export interface AtomicSearchBarRef {
+  focus: () => void;
+  blur: () => void;
+  clear: () => void;
 }
 
-export const AtomicSearchBar: React.FC<AtomicSearchBarProps> = ({
+export const AtomicSearchBar = forwardRef<AtomicSearchBarRef, AtomicSearchBarProps>(({
   value,
   onChangeText,
+  onDebouncedChange,
+  debounceDelay = 300,
+  loading = false,
+  showCancelButton = false,
+  cancelText = 'Cancel',
+  onCancel,
+  onSearch,
+  showSuggestions = false,
+  suggestions,
+  highlightFirstSuggestion = false,
+  saveRecentSearches = true,
+  historyStorage = memorySearchHistoryStorage,
+  historyKey = 'atomic-search-history',
+  maxRecentSearches = 5,
+  clearHistoryText = 'Clear history',
+  suggestionsStyle,
+  tokenKeys,
+  searchTokens = EMPTY_TOKENS,
+  onSearchTokensChange,
+  onQueryChange,
   placeholder = 'Search...',
   autoFocus = false,
   editable = true,
@@ -34,81 +129,344 @@ export const AtomicSearchBar: React.FC<AtomicSearchBarProps> = ({
   inputStyle,
   accessibilityLabel = 'Search input',
   accessibilityHint,
-}) => {
+  testID,
+}, ref) => {
   const tokens = useAppDesignTokens();
+  const inputRef = useRef<TextInput>(null);
+  const [isFocused, setIsFocused] = useState(false);
+
+  // Debounce: the last emitted text is skipped so mounting and flushes don't emit twice
+  const lastEmitted = useRef(value);
+  const debouncedChangeRef = useRef(onDebouncedChange);
+  debouncedChangeRef.current = onDebouncedChange;
+
+  const emitDebounced = (text: string) => {
+    if (text === lastEmitted.current) return;
+    lastEmitted.current = text;
+    debouncedChangeRef.current?.(text);
+  };
+
+  useEffect(() => {
+    if (value === lastEmitted.current) return;
+    const timer = setTimeout(() => emitDebounced(value), debounceDelay);
+    return () => clearTimeout(timer);
+  }, [value, debounceDelay]);
+
+  /**
+   * Apply new text, moving finished `key:value` words into tokens
+   * `complete` also takes the word being typed (submit, picked suggestion)
+   */
+  const applyText = (
+    text: string,
+    complete: boolean = false,
+    baseTokens: SearchToken[] = searchTokens
+  ): SearchQuery => {
+    const parsed = tokenKeys ? extractSearchTokens(text, tokenKeys, complete) : { tokens: [], text };
+    const nextTokens = parsed.tokens.length > 0 ? [...baseTokens, ...parsed.tokens] : baseTokens;
+
+    if (nextTokens !== searchTokens) onSearchTokensChange?.(nextTokens);
+    onChangeText(parsed.text);
+    onQueryChange?.({ tokens: nextTokens, text: parsed.text });
+    return { tokens: nextTokens, text: parsed.text };
+  };
+
+  const updateTokens = (nextTokens: SearchToken[]) => {
+    onSearchTokensChange?.(nextTokens);
+    onQueryChange?.({ tokens: nextTokens, text: value });
+  };
 
   const handleClear = () => {
+    if (searchTokens.length > 0) onSearchTokensChange?.([]);
     onChangeText('');
+    onQueryChange?.({ tokens: [], text: '' });
+    emitDebounced('');
     onClear?.();
   };
 
+  // Suggestions: matching recent searches first, then caller suggestions not already listed
+  const history = useSearchHistory(historyStorage, historyKey, maxRecentSearches, saveRecentSearches);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  // Set while a dropdown row is pressed so the input blur doesn't close the dropdown first
+  const isInteracting = useRef(false);
+
+  const suggestionItems = useMemo<SearchSuggestionItem[]>(() => {
+    if (!showSuggestions) return [];
+
+    const query = value.trim().toLocaleLowerCase();
+    const recent = history.history.filter(item => item.toLocaleLowerCase().includes(query));
+    const listed = new Set(recent.map(item => item.toLocaleLowerCase()));
+    const extra = (suggestions ?? []).filter(item => {
+      const key = item.toLocaleLowerCase();
+      if (listed.has(key)) return false;
+      listed.add(key);
+      return true;
+    });
+
+    return [
+      ...recent.map((text): SearchSuggestionItem => ({ kind: 'recent', text })),
+      ...extra.map((text): SearchSuggestionItem => ({ kind: 'suggestion', text })),
+    ];
+  }, [showSuggestions, value, history.history, suggestions]);
+
+  useEffect(() => {
+    setHighlightedIndex(highlightFirstSuggestion && value.trim() ? 0 : -1);
+  }, [value, showSuggestions, highlightFirstSuggestion]);
+
+  const isDropdownVisible = showSuggestions && isFocused && suggestionItems.length > 0;
+
+  // History keeps the full query (tokens included) so picking it restores the scope
+  const submitQuery = (query: SearchQuery) => {
+    emitDebounced(query.text);
+    history.add(formatSearchQuery(query));
+    onSearch?.(query.text);
+  };
+
+  const handleSelectSuggestion = (item: SearchSuggestionItem) => {
+    // Recent searches hold their own tokens, so they replace the current ones
+    const baseTokens = item.kind === 'recent' && tokenKeys ? EMPTY_TOKENS : searchTokens;
+    submitQuery(applyText(item.text, true, baseTokens));
+    inputRef.current?.blur();
+    setIsFocused(false);
+  };
+
+  const handleRemoveSuggestion = (item: SearchSuggestionItem) => {
+    history.remove(item.text);
+    inputRef.current?.focus();
+  };
+
+  const handleClearHistory = () => {
+    history.clear();
+    inputRef.current?.focus();
+  };
+
+  /**
+   * A press on the dropdown ended (completed or cancelled)
+   * Blurs ignored during the press are applied once its handler has run,
+   * unless the handler refocused the input (remove, clear history)
+   */
+  const handleInteractionEnd = () => {
+    isInteracting.current = false;
+    setTimeout(() => {
+      if (!inputRef.current?.isFocused()) setIsFocused(false);
+    }, 0);
+  };
+
+  // Backspace on an empty input removes the last token;
+  // on web, arrow keys move the highlighted suggestion (native TextInputs don't report them)
+  const handleKeyPress = (event: NativeSyntheticEvent<TextInputKeyPressEventData>) => {
+    const { key } = event.nativeEvent;
+    if (key === 'Backspace' && value === '' && searchTokens.length > 0) {
+      updateTokens(searchTokens.slice(0, -1));
+      return;
+    }
+
+    if (Platform.OS !== 'web' || !isDropdownVisible) return;
+    const count = suggestionItems.length;
+    if (key === 'ArrowDown') {
+      setHighlightedIndex(index => (index + 1) % count);
+    } else if (key === 'ArrowUp') {
+      setHighlightedIndex(index => (index <= 0 ? count - 1 : index - 1));
+    } else if (key === 'Escape') {
+      setHighlightedIndex(-1);
+    }
+  };
+
+  const handleSubmitEditing = () => {
+    const highlighted = isDropdownVisible ? suggestionItems[highlightedIndex] : undefined;
+    if (highlighted) {
+      handleSelectSuggestion(highlighted);
+    } else {
+      submitQuery(applyText(value, true));
+    }
+    onSubmitEditing?.();
+  };
+
+  const handleCancel = () => {
+    handleClear();
+    inputRef.current?.blur();
+    onCancel?.();
+  };
+
+  useImperativeHandle(ref, () => ({
+    focus: () => inputRef.current?.focus(),
+    blur: () => inputRef.current?.blur(),
+    clear: handleClear,
+  }));
+
   return (
-    <View
-      style={[
-        {
-          flexDirection: 'row',
-          alignItems: 'center',
-          backgroundColor: tokens.colors.surfaceSecondary,
-          borderRadius: tokens.borders.radius.lg,
-          borderWidth: 1,
-          borderColor: tokens.colors.border,
-          paddingHorizontal: tokens.spacing.md,
-          paddingVertical: tokens.spacing.sm,
-          gap: tokens.spacing.sm,
-          minHeight: 48,
-        },
-        style,
-      ]}
-      accessibilityRole="search"
-    >
-      <AtomicIcon
-        name="Search"
-        size="sm"
-        color="secondary"
-      />
-
-      <TextInput
-        value={value}
-        onChangeText={onChangeText}
-        placeholder={placeholder}
-        placeholderTextColor={tokens.colors.textSecondary}
-        autoFocus={autoFocus}
-        editable={editable}
-        onFocus={onFocus}
-        onBlur={onBlur}
-        onSubmitEditing={onSubmitEditing}
-        style={[
-          {
-            flex: 1,
-            ...tokens.typography.bodyMedium,
-            color: tokens.colors.textPrimary,
-            padding: 0,
-            margin: 0,
-          },
-          inputStyle,
-        ]}
-        accessibilityLabel={accessibilityLabel}
-        accessibilityHint={accessibilityHint}
-        returnKeyType="search"
-        underlineColorAndroid="transparent"
-      />
-
-      {value.length > 0 && (
-        <TouchableOpacity
-          onPress={handleClear}
-          style={{
-            padding: tokens.spacing.xs,
-          }}
-          accessibilityLabel="Clear search"
-          accessibilityRole="button"
+    <View style={isDropdownVisible ? styles.raised : undefined} testID={testID}>
+      <View style={styles.row}>
+        <View
+          style={[
+            {
+              flex: 1,
+              flexDirection: 'row',
+              alignItems: 'center',
+              backgroundColor: tokens.colors.surfaceSecondary,
+              borderRadius: tokens.borders.radius.lg,
+              borderWidth: 1,
+              borderColor: tokens.colors.border,
+              paddingHorizontal: tokens.spacing.md,
+              paddingVertical: tokens.spacing.sm,
+              gap: tokens.spacing.sm,
+              minHeight: 48,
+            },
+            style,
+          ]}
+          accessibilityRole="search"
         >
           <AtomicIcon
-            name="X"
+            name="Search"
             size="sm"
             color="secondary"
           />
-        </TouchableOpacity>
+
+          <View style={[styles.content, { gap: tokens.spacing.xs }]}>
+            {searchTokens.map((token, index) => (
+              <AtomicChip
+                key={`${token.key}-${token.value}-${index}`}
+                variant="soft"
+                size="sm"
+                disabled={!editable}
+                onClose={() => updateTokens(searchTokens.filter((_, i) => i !== index))}
+                testID={testID ? `${testID}-token-${index}` : undefined}
+              >
+                {formatSearchToken(token)}
+              </AtomicChip>
+            ))}
+
+            <TextInput
+              ref={inputRef}
+              value={value}
+              onChangeText={(text) => applyText(text)}
+              placeholder={searchTokens.length === 0 ? placeholder : undefined}
+              placeholderTextColor={tokens.colors.textSecondary}
+              autoFocus={autoFocus}
+              editable={editable}
+              onFocus={() => {
+                setIsFocused(true);
+                onFocus?.();
+              }}
+              onBlur={() => {
+                if (!isInteracting.current) setIsFocused(false);
+                onBlur?.();
+              }}
+              onSubmitEditing={handleSubmitEditing}
+              onKeyPress={handleKeyPress}
+              style={[
+                {
+                  flexGrow: 1,
+                  minWidth: searchTokens.length > 0 ? 80 : undefined,
+                  ...tokens.typography.bodyMedium,
+                  color: tokens.colors.textPrimary,
+                  padding: 0,
+                  margin: 0,
+                },
+                inputStyle,
+              ]}
+              accessibilityLabel={accessibilityLabel}
+              accessibilityHint={accessibilityHint}
+              returnKeyType="search"
+              underlineColorAndroid="transparent"
+              testID={testID ? `${testID}-input` : undefined}
+            />
+          </View>
+
+          {loading ? (
+            <View
+              style={{
+                padding: tokens.spacing.xs,
+              }}
+              accessibilityLabel="Searching"
+              accessibilityState={{ busy: true }}
+            >
+              <ActivityIndicator
+                size="small"
+                color={tokens.colors.textSecondary}
+                testID={testID ? `${testID}-loading` : undefined}
+              />
+            </View>
+          ) : (value.length > 0 || searchTokens.length > 0) && (
+            <TouchableOpacity
+              onPress={handleClear}
+              style={{
+                padding: tokens.spacing.xs,
+              }}
+              accessibilityLabel="Clear search"
+              accessibilityRole="button"
+              testID={testID ? `${testID}-clear` : undefined}
+            >
+              <AtomicIcon
+                name="X"
+                size="sm"
+                color="secondary"
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {showCancelButton && isFocused && (
+          <TouchableOpacity
+            onPress={handleCancel}
+            style={{
+              marginLeft: tokens.spacing.sm,
+              paddingVertical: tokens.spacing.xs,
+            }}
+            accessibilityLabel={cancelText}
+            accessibilityRole="button"
+            testID={testID ? `${testID}-cancel` : undefined}
+          >
+            <AtomicText type="bodyMedium" color="primary">
+              {cancelText}
+            </AtomicText>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isDropdownVisible && (
+        <SearchSuggestionList
+          items={suggestionItems}
+          query={value}
+          highlightedIndex={highlightedIndex}
+          onSelect={handleSelectSuggestion}
+          onRemove={handleRemoveSuggestion}
+          onClearHistory={handleClearHistory}
+          clearHistoryText={clearHistoryText}
+          onInteractionStart={() => {
+            isInteracting.current = true;
+          }}
+          onInteractionEnd={handleInteractionEnd}
+          style={[styles.dropdown, suggestionsStyle]}
+          testID={testID ? `${testID}-suggestions` : undefined}
+        />
       )}
     </View>
   );
-};
+});
+
+AtomicSearchBar.displayName = 'AtomicSearchBar';
+
+const EMPTY_TOKENS: SearchToken[] = [];
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  raised: {
+    zIndex: 10,
+  },
+  dropdown: {
+    position: 'absolute',
+    top: '100%',
+    left: 0,
+    right: 0,
+    elevation: 4,
+  },
+});
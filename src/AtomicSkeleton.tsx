@@ -0,0 +1,162 @@
+/**
+ * AtomicSkeleton - Universal Skeleton Loading Component
+ *
+ * Placeholder block with an animated shimmer shown while content loads
+ * Theme: {{THEME_NAME}} ({{CATEGORY}} category)
+ *
+ * Atomic Design Level: ATOM
+ * Purpose: Loading placeholders shaped like the real content
+ *
+ * Usage:
+ * - Text lines while data loads
+ * - Avatar and image placeholders
+ * - Card content placeholders
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Animated, Easing, StyleSheet, StyleProp, ViewStyle, DimensionValue, LayoutChangeEvent } from 'react-native';
+import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { useReduceMotion } from './hooks/useReduceMotion';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface AtomicSkeletonProps {
+  /** Width (number or percentage) */
+  width?: DimensionValue;
+  /** Height */
+  height?: DimensionValue;
+  /** Shape variant */
+  shape?: 'rect' | 'rounded' | 'circle';
+  /** Border radius override */
+  borderRadius?: number;
+  /** Animate the shimmer (always off when the OS reduce-motion setting is on) */
+  animated?: boolean;
+  /** Shimmer cycle duration in ms */
+  duration?: number;
+  /** Style overrides */
+  style?: StyleProp<ViewStyle>;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+// =============================================================================
+// COMPONENT IMPLEMENTATION
+// =============================================================================
+
+export const AtomicSkeleton: React.FC<AtomicSkeletonProps> = ({
+  width = '100%',
+  height = 16,
+  shape = 'rounded',
+  borderRadius,
+  animated = true,
+  duration = 1200,
+  style,
+  testID,
+}) => {
+  const tokens = useAppDesignTokens();
+  const reduceMotion = useReduceMotion();
+  const progress = useRef(new Animated.Value(0)).current;
+  const [layoutWidth, setLayoutWidth] = useState(0);
+
+  const shouldAnimate = animated && !reduceMotion && layoutWidth > 0;
+
+  useEffect(() => {
+    if (!shouldAnimate) {
+      progress.setValue(0);
+      return undefined;
+    }
+
+    const loop = Animated.loop(
+      Animated.timing(progress, {
+        toValue: 1,
+        duration,
+        easing: Easing.inOut(Easing.ease),
+        useNativeDriver: true,
+      })
+    );
+    loop.start();
+
+    return () => loop.stop();
+  }, [shouldAnimate, duration, progress]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setLayoutWidth(event.nativeEvent.layout.width);
+  };
+
+  const getRadius = (): number => {
+    if (borderRadius !== undefined) return borderRadius;
+    switch (shape) {
+      case 'circle':
+        return tokens.borders.radius.full;
+      case 'rect':
+        return 0;
+      case 'rounded':
+      default:
+        return tokens.borders.radius.sm;
+    }
+  };
+
+  const highlightWidth = layoutWidth * 0.4;
+  const translateX = progress.interpolate({
+    inputRange: [0, 1],
+    outputRange: [-highlightWidth, layoutWidth],
+  });
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          width,
+          height,
+          borderRadius: getRadius(),
+          backgroundColor: tokens.colors.surfaceVariant,
+        },
+        style,
+      ]}
+      onLayout={handleLayout}
+      accessible
+      accessibilityLabel="Loading"
+      accessibilityState={{ busy: true }}
+      testID={testID}
+    >
+      {shouldAnimate ? (
+        <Animated.View
+          style={[
+            styles.highlight,
+            {
+              width: highlightWidth,
+              backgroundColor: tokens.colors.surface,
+              transform: [{ translateX }],
+            },
+          ]}
+        />
+      ) : null}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  highlight: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    opacity: 0.5,
+  },
+});
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default AtomicSkeleton;
@@ -1,44 +1,28 @@
 import React from 'react';
 import { ScrollView, View } from 'react-native';
-import type { StyleProp, ViewStyle } from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import { AtomicChip } from './AtomicChip';
+import { AtomicBadge } from './AtomicBadge';
+import type { IconName } from './AtomicIcon';
+import { AtomicSortProps, SortKey, SortOption, SortDirection } from './sort/types';
 
-/**
- * Sort option interface
- */
-export interface SortOption {
-  id: string;
-  label: string;
-  icon?: string;
-}
-
-/**
- * Sort direction type
- */
-export type SortDirection = 'asc' | 'desc';
-
-/**
- * AtomicSort component props
- */
-export interface AtomicSortProps {
-  options: SortOption[];
-  selectedId: string | null;
-  sortDirection: SortDirection;
-  onSortChange: (optionId: string, direction: SortDirection) => void;
-  showDirectionToggle?: boolean;
-  variant?: 'outlined' | 'filled' | 'soft';
-  color?: 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info';
-  size?: 'sm' | 'md' | 'lg';
-  style?: StyleProp<ViewStyle>;
-  testID?: string;
-}
+export type {
+  SortOption,
+  SortDirection,
+  SortKey,
+  AtomicSortProps,
+  AtomicSortSingleProps,
+  AtomicSortMultiProps,
+} from './sort/types';
+export { createComparator } from './sort/utils/comparator';
+export type { SortAccessors, ComparatorOptions } from './sort/utils/comparator';
 
 /**
  * AtomicSort - Horizontal Sort Chip Component
  *
  * A Material Design 3 compliant sort component using chip selection.
- * Supports single selection with ascending/descending direction toggle.
+ * Supports single selection with ascending/descending direction toggle,
+ * or several prioritized sorts with `multiSort`.
  *
  * @example
  * ```tsx
@@ -47,9 +31,10 @@ export interface AtomicSortProps {
  *
  * <AtomicSort
  *   options={[
- *     { id: 'name', label: 'Name', icon: 'sort-alpha' },
- *     { id: 'date', label: 'Date', icon: 'schedule' },
- *     { id: 'priority', label: 'Priority', icon: 'flag' },
+ *     { id: 'name', label: 'Name', icon: 'ArrowDownAZ' },
+ *     { id: 'date', label: 'Date', icon: 'Clock', defaultDirection: 'desc' },
+ *     { id: 'relevance', label: 'Relevance', directions: ['desc'] },
+ *     { id: 'priority', label: 'Priority', icon: 'Flag' },
  *   ]}
  *   selectedId={sortBy}
  *   sortDirection={sortDir}
@@ -59,11 +44,27 @@ export interface AtomicSortProps {
  *   }}
  *   showDirectionToggle={true}
  * />
+ *
+ * // Multi sort: chips show their priority and direction
+ * const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+ *
+ * <AtomicSort
+ *   multiSort
+ *   options={options}
+ *   sortKeys={sortKeys}
+ *   onSortKeysChange={setSortKeys}
+ * />
+ *
+ * const sorted = [...items].sort(createComparator(sortKeys, {
+ *   name: (item) => item.name,
+ *   date: (item) => item.createdAt,
+ * }));
  * ```
  *
  * Features:
  * - Horizontal scrollable sort chips
  * - Single selection (one active sort at a time)
+ * - Multi sort with priority badges
  * - Direction toggle (click active chip to switch asc/desc)
  * - Visual arrow indicators (↑ asc, ↓ desc)
  * - Theme-aware colors from design tokens
@@ -71,39 +72,64 @@ export interface AtomicSortProps {
  * - Fully controlled component
  *
  * Behavior:
- * - Click inactive chip → Selects it with ascending direction
- * - Click active chip → Toggles direction (asc ↔ desc)
+ * - Click inactive chip → Selects it with its default direction (ascending unless set)
+ * - Click active chip → Toggles direction (asc ↔ desc) when the option allows both
+ * - Multi sort: inactive → added last, default → other direction, then removed
  * - Visual feedback via filled variant for active sort
  */
-export const AtomicSort: React.FC<AtomicSortProps> = ({
-  options,
-  selectedId,
-  sortDirection,
-  onSortChange,
-  showDirectionToggle = true,
-  variant = 'outlined',
-  color = 'primary',
-  size = 'md',
-  style,
-  testID,
-}) => {
+export const AtomicSort: React.FC<AtomicSortProps> = (props) => {
+  const {
+    options,
+    showDirectionToggle = true,
+    variant = 'outlined',
+    color = 'primary',
+    size = 'md',
+    style,
+    testID,
+  } = props;
   const tokens = useAppDesignTokens();
 
+  // Active sort keys in priority order (a single sort has at most one)
+  const activeKeys: SortKey[] = props.multiSort
+    ? props.sortKeys
+    : props.selectedId
+      ? [{ id: props.selectedId, direction: props.sortDirection }]
+      : [];
+
   /**
    * Handle sort chip press
-   * - If clicking active chip: Toggle direction
-   * - If clicking inactive chip: Select it with 'asc' direction
+   * - If clicking active chip: Toggle direction if allowed (multi sort: remove once both were shown)
+   * - If clicking inactive chip: Select it with its default direction
    */
-  const handleSortPress = (optionId: string) => {
-    if (selectedId === optionId) {
-      const newDirection = sortDirection === 'asc' ? 'desc' : 'asc';
-      onSortChange(optionId, newDirection);
-    } else {
-      onSortChange(optionId, 'asc');
+  const handleSortPress = (option: SortOption) => {
+    const activeKey = activeKeys.find(key => key.id === option.id);
+    const allowed = getAllowedDirections(option);
+    const defaultDirection = getDefaultDirection(option);
+    const toggled: SortDirection | undefined = activeKey
+      ? allowed.find(direction => direction !== activeKey.direction)
+      : undefined;
+
+    if (props.multiSort) {
+      if (!activeKey) {
+        props.onSortKeysChange([...activeKeys, { id: option.id, direction: defaultDirection }]);
+      } else if (activeKey.direction === defaultDirection && toggled) {
+        props.onSortKeysChange(
+          activeKeys.map(key => (key.id === option.id ? { ...key, direction: toggled } : key))
+        );
+      } else {
+        props.onSortKeysChange(activeKeys.filter(key => key.id !== option.id));
+      }
+      return;
+    }
+
+    if (!activeKey) {
+      props.onSortChange(option.id, defaultDirection);
+    } else if (toggled) {
+      props.onSortChange(option.id, toggled);
     }
   };
 
-  const directionIcon = sortDirection === 'asc' ? 'arrow-upward' : 'arrow-downward';
+  const getDirectionIcon = (key: SortKey): IconName => (key.direction === 'asc' ? 'ArrowUp' : 'ArrowDown');
 
   return (
     <ScrollView
@@ -111,6 +137,8 @@ export const AtomicSort: React.FC<AtomicSortProps> = ({
       showsHorizontalScrollIndicator={false}
       contentContainerStyle={{
         paddingHorizontal: tokens.spacing.sm,
+        // Room for the priority badges above the chips
+        paddingVertical: props.multiSort ? tokens.spacing.sm : undefined,
         gap: tokens.spacing.sm,
       }}
       style={[style]}
@@ -118,9 +146,11 @@ export const AtomicSort: React.FC<AtomicSortProps> = ({
     >
       <View style={{ flexDirection: 'row', gap: tokens.spacing.sm }}>
         {options.map((option) => {
-          const isSelected = selectedId === option.id;
+          const activeIndex = activeKeys.findIndex(key => key.id === option.id);
+          const activeKey = activeIndex === -1 ? undefined : activeKeys[activeIndex];
+          const isSelected = !!activeKey;
 
-          return (
+          const chip = (
             <AtomicChip
               key={option.id}
               variant={isSelected ? 'filled' : variant}
@@ -128,18 +158,59 @@ export const AtomicSort: React.FC<AtomicSortProps> = ({
               size={size}
               leadingIcon={option.icon}
               trailingIcon={
-                isSelected && showDirectionToggle ? directionIcon : undefined
+                activeKey && showDirectionToggle ? getDirectionIcon(activeKey) : undefined
               }
               selected={isSelected}
               clickable={true}
-              onPress={() => handleSortPress(option.id)}
+              onPress={() => handleSortPress(option)}
+              accessibilityLabel={getSortAccessibilityLabel(
+                option,
+                activeKey,
+                props.multiSort && activeKeys.length > 1 ? activeIndex + 1 : undefined
+              )}
               testID={`sort-chip-${option.id}`}
             >
               {option.label}
             </AtomicChip>
           );
+
+          // Multi sort: small priority number on active chips
+          return props.multiSort && isSelected ? (
+            <AtomicBadge key={option.id} anchor={chip} size="sm" variant={color === 'primary' ? 'secondary' : 'primary'}>
+              {activeIndex + 1}
+            </AtomicBadge>
+          ) : (
+            chip
+          );
         })}
       </View>
     </ScrollView>
   );
 };
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+const BOTH_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+
+const getAllowedDirections = (option: SortOption): SortDirection[] =>
+  option.directions && option.directions.length > 0 ? option.directions : BOTH_DIRECTIONS;
+
+const getDefaultDirection = (option: SortOption): SortDirection => {
+  const allowed = getAllowedDirections(option);
+  return option.defaultDirection && allowed.includes(option.defaultDirection)
+    ? option.defaultDirection
+    : allowed[0];
+};
+
+/**
+ * Chip label for screen readers, e.g. "Sorted by Date, descending" or "Sort by Name"
+ */
+const getSortAccessibilityLabel = (option: SortOption, activeKey?: SortKey, priority?: number): string => {
+  if (!activeKey) {
+    return `Sort by ${option.label}`;
+  }
+  const direction = activeKey.direction === 'asc' ? 'ascending' : 'descending';
+  return `Sorted by ${option.label}, ${direction}${priority ? `, priority ${priority}` : ''}`;
+};
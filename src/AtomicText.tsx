@@ -1,8 +1,9 @@
 import React from 'react';
-import { Text, StyleProp, TextStyle } from 'react-native';
+import { Text, View, StyleProp, TextStyle, DimensionValue } from 'react-native';
 import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
 import type { TextStyleVariant, ColorVariant } from '@umituz/react-native-design-system-typography';
 import { getTextColor } from '@umituz/react-native-design-system-typography';
+import { AtomicSkeleton } from './AtomicSkeleton';
 
 export interface AtomicTextProps {
   children: React.ReactNode;
@@ -13,6 +14,10 @@ export interface AtomicTextProps {
   textAlign?: 'auto' | 'left' | 'right' | 'center' | 'justify';
   style?: StyleProp<TextStyle>;
   testID?: string;
+  /** Show a skeleton line (one per `numberOfLines`) instead of the text */
+  loading?: boolean;
+  /** Skeleton line width (the last of several lines is shortened) */
+  skeletonWidth?: DimensionValue;
 }
 
 export const AtomicText: React.FC<AtomicTextProps> = ({
@@ -24,12 +29,34 @@ export const AtomicText: React.FC<AtomicTextProps> = ({
   textAlign,
   style,
   testID,
+  loading = false,
+  skeletonWidth = '100%',
 }) => {
   const tokens = useAppDesignTokens();
 
   // Get typography style from tokens
   const typographyStyle = (tokens.typography as Record<string, any>)[type];
 
+  if (loading) {
+    // Each skeleton line takes the variant's line height, the bar itself its font size
+    const fontSize: number = typographyStyle?.fontSize ?? 14;
+    const lineHeight: number = typographyStyle?.lineHeight ?? Math.round(fontSize * 1.2);
+    const lineCount = Math.max(1, numberOfLines ?? 1);
+
+    return (
+      <View testID={testID}>
+        {Array.from({ length: lineCount }, (_, index) => (
+          <View key={index} style={{ height: lineHeight, justifyContent: 'center' }}>
+            <AtomicSkeleton
+              width={lineCount > 1 && index === lineCount - 1 ? '60%' : skeletonWidth}
+              height={fontSize}
+            />
+          </View>
+        ))}
+      </View>
+    );
+  }
+
   // Get color from tokens or use custom color using utility function
   const resolvedColor = getTextColor(color, tokens);
 
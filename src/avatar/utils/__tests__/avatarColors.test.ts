@@ -0,0 +1,82 @@
+import type { DesignTokens } from '@umituz/react-native-design-system-theme';
+import {
+  MIN_TEXT_CONTRAST,
+  getAvatarColors,
+  getContrastRatio,
+  getReadableTextColor,
+  parseColor,
+} from '../avatarColors';
+
+const tokens = {
+  colors: {
+    primary: '#6750A4',
+    secondary: '#625B71',
+    success: '#4CAF50',
+    warning: '#FFC107',
+    error: '#B3261E',
+    info: '#2196F3',
+    primaryContainer: '#EADDFF',
+    secondaryContainer: '#E8DEF8',
+    onPrimary: '#FFFFFF',
+    textInverse: '#FFFFFF',
+    textPrimary: '#1C1B1F',
+  },
+} as unknown as DesignTokens;
+
+const NAMES = ['Alice', 'Bob', 'Carol', 'İsmail Ünal', 'José', '李小龙', 'Zoë', 'x', 'A very long display name'];
+
+describe('getAvatarColors', () => {
+  it('gives the same colors for the same name', () => {
+    for (const name of NAMES) {
+      expect(getAvatarColors(name, tokens)).toEqual(getAvatarColors(name, tokens));
+    }
+  });
+
+  it('ignores case, surrounding spaces and normalization form', () => {
+    expect(getAvatarColors('  alice ', tokens)).toEqual(getAvatarColors('Alice', tokens));
+    expect(getAvatarColors('Jose\u0301', tokens)).toEqual(getAvatarColors('Jos\u00E9', tokens));
+  });
+
+  it('spreads names over the palette', () => {
+    const backgrounds = new Set(NAMES.map(name => getAvatarColors(name, tokens).backgroundColor));
+    expect(backgrounds.size).toBeGreaterThan(1);
+  });
+
+  it('picks text with readable contrast', () => {
+    for (const name of NAMES) {
+      const { backgroundColor, textColor } = getAvatarColors(name, tokens);
+      expect(getContrastRatio(textColor, backgroundColor)).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+    }
+  });
+});
+
+describe('getReadableTextColor', () => {
+  const backgrounds = ['#000000', '#FFFFFF', '#777777', '#6750A4', '#FFC107', '#4CAF50', '#2196F3', '#EADDFF'];
+
+  it('reaches at least 4.5:1 contrast', () => {
+    for (const background of backgrounds) {
+      const textColor = getReadableTextColor(background, ['#FFFFFF', '#1C1B1F']);
+      expect(getContrastRatio(textColor, background)).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+    }
+  });
+
+  it('falls back to black or white when no candidate is readable', () => {
+    expect(getReadableTextColor('#FFC107', ['#FFEB3B'])).toBe('#000000');
+    expect(getReadableTextColor('#1C1B1F', ['#333333'])).toBe('#FFFFFF');
+  });
+});
+
+describe('parseColor / getContrastRatio', () => {
+  it('parses hex and rgb colors', () => {
+    expect(parseColor('#fff')).toEqual([255, 255, 255]);
+    expect(parseColor('#6750A4CC')).toEqual([103, 80, 164]);
+    expect(parseColor('rgba(1, 2, 3, 0.5)')).toEqual([1, 2, 3]);
+    expect(parseColor('red')).toBeNull();
+  });
+
+  it('computes WCAG contrast', () => {
+    expect(getContrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21);
+    expect(getContrastRatio('#777777', '#777777')).toBeCloseTo(1);
+    expect(getContrastRatio('red', '#FFFFFF')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { getFirstGrapheme, getInitials } from '../initials';
+
+const WOMAN_TECHNOLOGIST = '\u{1F469}\u200D\u{1F4BB}';
+const FAMILY = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}';
+const THUMBS_UP_MEDIUM = '\u{1F44D}\u{1F3FD}';
+const FLAG_TR = '\u{1F1F9}\u{1F1F7}';
+const FLAG_US = '\u{1F1FA}\u{1F1F8}';
+// q + combining dot above has no precomposed form, so NFC keeps two code points
+const Q_DOT = 'q\u0307';
+
+const segmenter = (Intl as unknown as { Segmenter?: unknown }).Segmenter;
+
+// Hermes has no Intl.Segmenter, so the manual fallback is what runs on device
+describe.each([
+  ['Intl.Segmenter', false],
+  ['fallback', true],
+])('grapheme handling (%s)', (_, removeSegmenter) => {
+  beforeAll(() => {
+    if (removeSegmenter) delete (Intl as unknown as { Segmenter?: unknown }).Segmenter;
+  });
+
+  afterAll(() => {
+    if (removeSegmenter) (Intl as unknown as { Segmenter?: unknown }).Segmenter = segmenter;
+  });
+
+  it('runs on the expected path', () => {
+    expect('Segmenter' in Intl).toBe(!removeSegmenter);
+  });
+
+  it('keeps ZWJ emoji sequences together', () => {
+    expect(getFirstGrapheme(`${WOMAN_TECHNOLOGIST}x`)).toBe(WOMAN_TECHNOLOGIST);
+    expect(getFirstGrapheme(FAMILY)).toBe(FAMILY);
+    expect(getInitials(`${WOMAN_TECHNOLOGIST} Dev`)).toBe(`${WOMAN_TECHNOLOGIST}D`);
+  });
+
+  it('keeps emoji modifiers together', () => {
+    expect(getFirstGrapheme(`${THUMBS_UP_MEDIUM}!`)).toBe(THUMBS_UP_MEDIUM);
+  });
+
+  it('keeps flag pairs together', () => {
+    expect(getFirstGrapheme(`${FLAG_TR}${FLAG_US}`)).toBe(FLAG_TR);
+    expect(getInitials(`${FLAG_TR} Team`)).toBe(`${FLAG_TR}T`);
+  });
+
+  it('keeps combining marks together', () => {
+    expect(getFirstGrapheme(`${Q_DOT}x`)).toBe(Q_DOT);
+    expect(getInitials(`${Q_DOT}uinn Zola`)).toBe('Q\u0307Z');
+  });
+
+  it('uses the first and last word split on any whitespace', () => {
+    expect(getInitials('  jane   doe ')).toBe('JD');
+    expect(getInitials('jane doe')).toBe('JD');
+    expect(getInitials('Ada Lovelace Byron')).toBe('AB');
+  });
+});
+
+describe('getInitials', () => {
+  it('uppercases with the given locale', () => {
+    expect(getInitials('İsmail Ünal')).toBe('İÜ');
+    expect(getInitials('İsmail Ünal', { locale: 'tr' })).toBe('İÜ');
+    expect(getInitials('ismail ünal', { locale: 'en' })).toBe('IÜ');
+    expect(getInitials('ismail ünal', { locale: 'tr' })).toBe('İÜ');
+  });
+
+  it('normalizes decomposed input', () => {
+    expect(getInitials('U\u0308nal')).toBe('\u00DC');
+  });
+
+  it('skips leading punctuation', () => {
+    expect(getInitials('"jane" (doe)')).toBe('JD');
+  });
+
+  it('respects maxLength', () => {
+    expect(getInitials('Ada Lovelace Byron', { maxLength: 1 })).toBe('A');
+    expect(getInitials('Ada Lovelace Byron', { maxLength: 3 })).toBe('ALB');
+    expect(getInitials('Ada', { maxLength: 0 })).toBe('');
+  });
+
+  it('returns an empty string without letters', () => {
+    expect(getInitials('')).toBe('');
+    expect(getInitials('   ')).toBe('');
+    expect(getInitials('-- ...')).toBe('');
+  });
+});
@@ -0,0 +1,131 @@
+import type { DesignTokens } from '@umituz/react-native-design-system-theme';
+
+/**
+ * Minimum WCAG AA contrast ratio for avatar initials
+ */
+export const MIN_TEXT_CONTRAST = 4.5;
+
+/**
+ * Parse a hex (#rgb, #rgba, #rrggbb, #rrggbbaa) or rgb()/rgba() color into RGB channels
+ * Returns null for anything else (named colors, hsl, ...)
+ */
+export const parseColor = (color: string): [number, number, number] | null => {
+  const value = color.trim();
+
+  const hex = value.match(/^#([0-9a-f]{3,8})$/i);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.slice(0, 3).split('').map(digit => digit + digit).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return [
+      parseInt(digits.slice(0, 2), 16),
+      parseInt(digits.slice(2, 4), 16),
+      parseInt(digits.slice(4, 6), 16),
+    ];
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+(?:\.\d+)?)\s*[,\s]\s*(\d+(?:\.\d+)?)\s*[,\s]\s*(\d+(?:\.\d+)?)/i);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+
+  return null;
+};
+
+/**
+ * WCAG relative luminance of an RGB color
+ */
+export const getRelativeLuminance = ([r, g, b]: [number, number, number]): number => {
+  const toLinear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+};
+
+/**
+ * WCAG contrast ratio between two colors (1-21), or null when either can't be parsed
+ */
+export const getContrastRatio = (foreground: string, background: string): number | null => {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+
+  const l1 = getRelativeLuminance(fg);
+  const l2 = getRelativeLuminance(bg);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+/**
+ * Pick the candidate text color with the best contrast on `background`
+ * Falls back to black or white when no candidate reaches MIN_TEXT_CONTRAST
+ */
+export const getReadableTextColor = (background: string, candidates: string[]): string => {
+  let best: string | undefined;
+  let bestRatio = 0;
+  for (const candidate of candidates) {
+    const ratio = getContrastRatio(candidate, background);
+    if (ratio !== null && ratio > bestRatio) {
+      best = candidate;
+      bestRatio = ratio;
+    }
+  }
+  if (best && bestRatio >= MIN_TEXT_CONTRAST) return best;
+
+  const white = getContrastRatio('#FFFFFF', background);
+  const black = getContrastRatio('#000000', background);
+  if (white === null || black === null) return best ?? '#FFFFFF';
+  return white >= black ? '#FFFFFF' : '#000000';
+};
+
+/**
+ * Stable 32-bit FNV-1a hash of a string
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Avatar background palette derived from theme tokens
+ */
+export const getAvatarPalette = (tokens: DesignTokens): string[] =>
+  [
+    tokens.colors.primary,
+    tokens.colors.secondary,
+    tokens.colors.success,
+    tokens.colors.warning,
+    tokens.colors.error,
+    tokens.colors.info,
+    tokens.colors.primaryContainer,
+    tokens.colors.secondaryContainer,
+  ].filter((color): color is string => typeof color === 'string' && color.length > 0);
+
+/**
+ * Deterministic avatar colors for a name: the same name always gets the same
+ * palette entry, with a text color that keeps readable contrast
+ */
+export const getAvatarColors = (
+  name: string,
+  tokens: DesignTokens
+): { backgroundColor: string; textColor: string } => {
+  const palette = getAvatarPalette(tokens);
+  const key = name.normalize('NFC').trim().toLocaleLowerCase();
+  const backgroundColor = palette.length > 0
+    ? palette[hashString(key) % palette.length]
+    : tokens.colors.primary;
+
+  const textColor = getReadableTextColor(backgroundColor, [
+    tokens.colors.onPrimary,
+    tokens.colors.textInverse,
+    tokens.colors.textPrimary,
+  ].filter(Boolean));
+
+  return { backgroundColor, textColor };
+};
@@ -0,0 +1,90 @@
+/**
+ * Options for getInitials
+ */
+export interface GetInitialsOptions {
+  /** Locale used for uppercasing (e.g. 'tr' maps i → İ) */
+  locale?: string | string[];
+  /** Maximum number of initials (default: 2) */
+  maxLength?: number;
+}
+
+// Code points that attach to the previous one within a grapheme cluster
+const COMBINING_PATTERN = /^[\p{M}\u200D\uFE0E\uFE0F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]$/u;
+const REGIONAL_INDICATOR_PATTERN = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+const LETTER_OR_NUMBER_PATTERN = /[\p{L}\p{N}\p{Extended_Pictographic}\p{Regional_Indicator}]/u;
+
+/**
+ * Return the first grapheme cluster of a string
+ *
+ * Uses Intl.Segmenter when the runtime has it and otherwise keeps combining
+ * marks, emoji modifiers, ZWJ sequences and flag pairs together by hand.
+ */
+export const getFirstGrapheme = (value: string): string => {
+  if (!value) return '';
+
+  const Segmenter = (Intl as unknown as { Segmenter?: new () => { segment: (input: string) => Iterable<{ segment: string }> } }).Segmenter;
+  if (Segmenter) {
+    for (const { segment } of new Segmenter().segment(value)) {
+      return segment;
+    }
+    return '';
+  }
+
+  const codePoints = Array.from(value);
+  let grapheme = codePoints[0];
+  for (let i = 1; i < codePoints.length; i++) {
+    const codePoint = codePoints[i];
+    const previous = codePoints[i - 1];
+
+    if (COMBINING_PATTERN.test(codePoint)) {
+      grapheme += codePoint;
+    } else if (previous === '\u200D') {
+      // Zero-width joiner glues the next emoji on (👩‍💻)
+      grapheme += codePoint;
+    } else if (i === 1 && REGIONAL_INDICATOR_PATTERN.test(previous) && REGIONAL_INDICATOR_PATTERN.test(codePoint)) {
+      // Flags are pairs of regional indicators
+      grapheme += codePoint;
+    } else {
+      break;
+    }
+  }
+  return grapheme;
+};
+
+/**
+ * Get display initials from a name
+ *
+ * - Splits on any whitespace (double spaces, tabs, non-breaking spaces)
+ * - Uses the first and last word ("Ada Lovelace Byron" → "AB")
+ * - Keeps whole grapheme clusters (combining characters, emoji)
+ * - Uppercases with the given locale ("ismail ünal", 'tr' → "İÜ")
+ *
+ * @example
+ * getInitials('İsmail Ünal'); // 'İÜ'
+ * getInitials('  jane   doe '); // 'JD'
+ * getInitials('👩‍💻 Dev'); // '👩‍💻D'
+ */
+export const getInitials = (name: string, options: GetInitialsOptions = {}): string => {
+  const { locale, maxLength = 2 } = options;
+
+  const words = name
+    .normalize('NFC')
+    .split(/[\s\u00A0\u2000-\u200B\u3000]+/u)
+    // Drop leading punctuation such as quotes or brackets
+    .map(word => {
+      const start = word.search(LETTER_OR_NUMBER_PATTERN);
+      return start === -1 ? '' : word.slice(start);
+    })
+    .filter(Boolean);
+
+  if (words.length === 0 || maxLength <= 0) return '';
+
+  const picked = words.length > maxLength && maxLength >= 2
+    ? [...words.slice(0, maxLength - 1), words[words.length - 1]]
+    : words.slice(0, maxLength);
+
+  return picked
+    .map(word => getFirstGrapheme(word).toLocaleUpperCase(locale))
+    .join('')
+    .normalize('NFC');
+};
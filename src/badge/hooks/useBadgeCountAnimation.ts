@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { Animated, Easing } from 'react-native';
+
+const POP_SCALE = 1.2;
+const ROLL_DURATION = 200;
+
+/**
+ * Drive AtomicBadge count transitions
+ * - Pops the badge when the count goes up
+ * - Rolls the old label out and the new one in (up on increment, down on decrement)
+ *
+ * `outgoingLabel` is the label rolling out, set only while a roll is running
+ */
+export const useBadgeCountAnimation = (
+  count: number | undefined,
+  label: string | undefined,
+  enabled: boolean
+) => {
+  const scale = useRef(new Animated.Value(1)).current;
+  const roll = useRef(new Animated.Value(1)).current;
+  const previous = useRef({ count, label });
+  const [outgoingLabel, setOutgoingLabel] = useState<string | undefined>(undefined);
+  const [direction, setDirection] = useState<1 | -1>(1);
+
+  useEffect(() => {
+    const { count: previousCount, label: previousLabel } = previous.current;
+    previous.current = { count, label };
+
+    if (!enabled || count === undefined || previousCount === undefined || count === previousCount) {
+      return;
+    }
+
+    const isIncrement = count > previousCount;
+    const animations: Animated.CompositeAnimation[] = [];
+
+    // Labels can stay the same past `max` (99+ → 99+)
+    if (label !== previousLabel) {
+      setDirection(isIncrement ? 1 : -1);
+      setOutgoingLabel(previousLabel);
+      roll.setValue(0);
+      animations.push(
+        Animated.timing(roll, {
+          toValue: 1,
+          duration: ROLL_DURATION,
+          easing: Easing.out(Easing.cubic),
+          useNativeDriver: true,
+        })
+      );
+    }
+
+    if (isIncrement) {
+      animations.push(
+        Animated.sequence([
+          Animated.timing(scale, {
+            toValue: POP_SCALE,
+            duration: ROLL_DURATION / 2,
+            easing: Easing.out(Easing.quad),
+            useNativeDriver: true,
+          }),
+          Animated.spring(scale, {
+            toValue: 1,
+            friction: 4,
+            useNativeDriver: true,
+          }),
+        ])
+      );
+    }
+
+    const animation = Animated.parallel(animations);
+    animation.start(() => setOutgoingLabel(undefined));
+
+    return () => {
+      animation.stop();
+      scale.setValue(1);
+      roll.setValue(1);
+    };
+  }, [count, label, enabled, scale, roll]);
+
+  return { scale, roll, outgoingLabel, direction };
+};
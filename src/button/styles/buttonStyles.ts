@@ -0,0 +1,116 @@
+import { ViewStyle, TextStyle } from 'react-native';
+import type { DesignTokens } from '@umituz/react-native-design-system-theme';
+import { ButtonVariant, ButtonSize, ButtonSizeConfig, ButtonVariantConfig } from '../types';
+
+/**
+ * Get button size configurations based on design tokens
+ * Shared by AtomicButton and AtomicButtonGroup
+ */
+export const getButtonSizeConfig = (tokens: DesignTokens): Record<ButtonSize, ButtonSizeConfig> => ({
+  sm: {
+    paddingVertical: tokens.spacing.xs,
+    paddingHorizontal: tokens.spacing.sm,
+    fontSize: tokens.typography.bodySmall.fontSize,
+    iconSize: 16,
+    minHeight: 32,
+  },
+  md: {
+    paddingVertical: tokens.spacing.sm,
+    paddingHorizontal: tokens.spacing.md,
+    fontSize: tokens.typography.bodyMedium.fontSize,
+    iconSize: 20,
+    minHeight: 44,
+  },
+  lg: {
+    paddingVertical: tokens.spacing.md,
+    paddingHorizontal: tokens.spacing.lg,
+    fontSize: tokens.typography.bodyLarge.fontSize,
+    iconSize: 24,
+    minHeight: 52,
+  },
+});
+
+/**
+ * Get button variant styles based on design tokens
+ * Icon colors follow the variant text color
+ */
+export const getButtonVariantStyles = (tokens: DesignTokens, variant: ButtonVariant): ButtonVariantConfig => {
+  const baseStyle: ViewStyle = {
+    backgroundColor: tokens.colors.primary,
+    borderWidth: 0,
+  };
+
+  const baseTextStyle: TextStyle = {
+    color: tokens.colors.textInverse,
+  };
+
+  switch (variant) {
+    case 'primary':
+      return {
+        container: {
+          ...baseStyle,
+          backgroundColor: tokens.colors.primary,
+        },
+        text: {
+          ...baseTextStyle,
+          color: tokens.colors.textInverse,
+        },
+      };
+
+    case 'secondary':
+      return {
+        container: {
+          ...baseStyle,
+          backgroundColor: tokens.colors.surfaceSecondary,
+        },
+        text: {
+          ...baseTextStyle,
+          color: tokens.colors.textPrimary,
+        },
+      };
+
+    case 'outline':
+      return {
+        container: {
+          ...baseStyle,
+          backgroundColor: 'transparent',
+          borderWidth: 1,
+          borderColor: tokens.colors.border,
+        },
+        text: {
+          ...baseTextStyle,
+          color: tokens.colors.textPrimary,
+        },
+      };
+
+    case 'text':
+      return {
+        container: {
+          ...baseStyle,
+          backgroundColor: 'transparent',
+        },
+        text: {
+          ...baseTextStyle,
+          color: tokens.colors.primary,
+        },
+      };
+
+    case 'danger':
+      return {
+        container: {
+          ...baseStyle,
+          backgroundColor: tokens.colors.error,
+        },
+        text: {
+          ...baseTextStyle,
+          color: tokens.colors.textInverse,
+        },
+      };
+
+    default:
+      return {
+        container: baseStyle,
+        text: baseTextStyle,
+      };
+  }
+};
@@ -0,0 +1,35 @@
+import { ViewStyle, TextStyle } from 'react-native';
+
+/**
+ * Button visual variants
+ */
+export type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'text' | 'danger';
+
+/**
+ * Button size variants
+ */
+export type ButtonSize = 'sm' | 'md' | 'lg';
+
+/**
+ * Side of the label a button icon is rendered on
+ */
+export type ButtonIconPosition = 'leading' | 'trailing';
+
+/**
+ * Button configuration for size styling
+ */
+export interface ButtonSizeConfig {
+  paddingVertical: number;
+  paddingHorizontal: number;
+  fontSize: number;
+  iconSize: number;
+  minHeight: number;
+}
+
+/**
+ * Button configuration for variant styling
+ */
+export interface ButtonVariantConfig {
+  container: ViewStyle;
+  text: TextStyle;
+}
@@ -0,0 +1,209 @@
+import React, { useMemo, useRef } from 'react';
+import { View, Pressable, PanResponder, I18nManager, StyleSheet } from 'react-native';
+import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicText } from '../../AtomicText';
+import { AtomicIcon } from '../../AtomicIcon';
+import {
+  Weekday,
+  addMonths,
+  formatMonthTitle,
+  getCalendarWeeks,
+  getWeekdayLabels,
+  isDayDisabled,
+  isMonthInRange,
+  isSameDay,
+} from '../utils/calendar';
+
+export interface CalendarMonthProps {
+  /** Selected day */
+  value: Date | null;
+  /** Any day in the month being shown */
+  month: Date;
+  onMonthChange: (month: Date) => void;
+  onSelect: (date: Date) => void;
+  minimumDate?: Date;
+  maximumDate?: Date;
+  weekStartsOn: Weekday;
+  locale?: string;
+  testID?: string;
+}
+
+/** Horizontal distance (px) a swipe must travel to change month */
+const SWIPE_THRESHOLD = 50;
+
+/**
+ * Month grid for AtomicDatePicker's calendar display
+ * Swipe left/right (or use the arrows) to change month
+ */
+export const CalendarMonth: React.FC<CalendarMonthProps> = ({
+  value,
+  month,
+  onMonthChange,
+  onSelect,
+  minimumDate,
+  maximumDate,
+  weekStartsOn,
+  locale,
+  testID,
+}) => {
+  const tokens = useAppDesignTokens();
+  const today = new Date();
+
+  const weeks = useMemo(() => getCalendarWeeks(month, weekStartsOn), [month, weekStartsOn]);
+  const weekdayLabels = useMemo(() => getWeekdayLabels(weekStartsOn, locale), [weekStartsOn, locale]);
+  const previousMonth = addMonths(month, -1);
+  const nextMonth = addMonths(month, 1);
+  const canGoBack = isMonthInRange(previousMonth, minimumDate, maximumDate);
+  const canGoForward = isMonthInRange(nextMonth, minimumDate, maximumDate);
+
+  // The responder is created once, so it reads the latest navigation through a ref
+  const navigation = useRef({ previousMonth, nextMonth, canGoBack, canGoForward, onMonthChange });
+  navigation.current = { previousMonth, nextMonth, canGoBack, canGoForward, onMonthChange };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy),
+      onPanResponderRelease: (_, gesture) => {
+        const nav = navigation.current;
+        // Swipe left for the next month (mirrored in RTL layouts)
+        const dx = I18nManager.isRTL ? -gesture.dx : gesture.dx;
+        if (dx <= -SWIPE_THRESHOLD && nav.canGoForward) nav.onMonthChange(nav.nextMonth);
+        if (dx >= SWIPE_THRESHOLD && nav.canGoBack) nav.onMonthChange(nav.previousMonth);
+      },
+    })
+  ).current;
+
+  const dayFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+    [locale]
+  );
+
+  return (
+    <View style={{ padding: tokens.spacing.md }} testID={testID}>
+      <View style={[styles.header, { marginBottom: tokens.spacing.sm }]}>
+        <Pressable
+          onPress={() => onMonthChange(previousMonth)}
+          disabled={!canGoBack}
+          style={[styles.navButton, { opacity: canGoBack ? 1 : 0.3 }]}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Previous month"
+          accessibilityState={{ disabled: !canGoBack }}
+          testID={testID ? `${testID}-previous` : undefined}
+        >
+          <AtomicIcon name={I18nManager.isRTL ? 'ChevronRight' : 'ChevronLeft'} size="md" color="primary" />
+        </Pressable>
+
+        <View accessible accessibilityRole="header" accessibilityLiveRegion="polite">
+          <AtomicText type="titleMedium" color={tokens.colors.textPrimary} testID={testID ? `${testID}-title` : undefined}>
+            {formatMonthTitle(month, locale)}
+          </AtomicText>
+        </View>
+
+        <Pressable
+          onPress={() => onMonthChange(nextMonth)}
+          disabled={!canGoForward}
+          style={[styles.navButton, { opacity: canGoForward ? 1 : 0.3 }]}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel="Next month"
+          accessibilityState={{ disabled: !canGoForward }}
+          testID={testID ? `${testID}-next` : undefined}
+        >
+          <AtomicIcon name={I18nManager.isRTL ? 'ChevronLeft' : 'ChevronRight'} size="md" color="primary" />
+        </Pressable>
+      </View>
+
+      <View style={styles.week} importantForAccessibility="no-hide-descendants">
+        {weekdayLabels.map((label, index) => (
+          <View key={index} style={styles.cell}>
+            <AtomicText type="labelSmall" color={tokens.colors.textSecondary}>
+              {label}
+            </AtomicText>
+          </View>
+        ))}
+      </View>
+
+      <View {...panResponder.panHandlers}>
+        {weeks.map((week, weekIndex) => (
+          <View key={weekIndex} style={styles.week}>
+            {week.map(({ date, inMonth }) => {
+              const isSelected = !!value && isSameDay(date, value);
+              const isToday = isSameDay(date, today);
+              const isDisabled = isDayDisabled(date, minimumDate, maximumDate);
+
+              const textColor = isSelected
+                ? tokens.colors.onPrimary
+                : isDisabled
+                  ? tokens.colors.textDisabled
+                  : isToday
+                    ? tokens.colors.primary
+                    : tokens.colors.textPrimary;
+
+              return (
+                <Pressable
+                  key={date.getTime()}
+                  onPress={() => onSelect(date)}
+                  disabled={isDisabled}
+                  style={styles.cell}
+                  accessibilityRole="button"
+                  accessibilityLabel={dayFormatter.format(date)}
+                  accessibilityState={{ selected: isSelected, disabled: isDisabled }}
+                  testID={testID ? `${testID}-day-${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}` : undefined}
+                >
+                  <View
+                    style={[
+                      styles.day,
+                      {
+                        borderRadius: tokens.borders.radius.full,
+                        backgroundColor: isSelected ? tokens.colors.primary : 'transparent',
+                        borderColor: isToday && !isSelected ? tokens.colors.primary : 'transparent',
+                        opacity: inMonth ? 1 : 0.4,
+                      },
+                    ]}
+                  >
+                    <AtomicText
+                      type="bodyMedium"
+                      color={textColor}
+                      style={isSelected || isToday ? { fontWeight: tokens.typography.semibold } : undefined}
+                    >
+                      {date.getDate()}
+                    </AtomicText>
+                  </View>
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  navButton: {
+    padding: 8,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  cell: {
+    flex: 1,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  day: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+});
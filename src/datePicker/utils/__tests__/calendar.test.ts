@@ -0,0 +1,140 @@
+import {
+  addMonths,
+  clampDate,
+  getCalendarWeeks,
+  getWeekStart,
+  isDayDisabled,
+  isMonthInRange,
+} from '../calendar';
+
+const dayKeys = (weeks: ReturnType<typeof getCalendarWeeks>) =>
+  weeks.map(week => week.map(({ date }) => `${date.getMonth() + 1}/${date.getDate()}`));
+
+describe('getCalendarWeeks', () => {
+  it('starts on the 1st when the month starts on the week-start day', () => {
+    // June 1, 2026 is a Monday
+    const weeks = getCalendarWeeks(new Date(2026, 5, 15), 1);
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks.every(week => week.length === 7)).toBe(true);
+    expect(dayKeys(weeks)[0]).toEqual(['6/1', '6/2', '6/3', '6/4', '6/5', '6/6', '6/7']);
+    expect(weeks[0][0].inMonth).toBe(true);
+    expect(dayKeys(weeks)[5][6]).toBe('7/12');
+  });
+
+  it('pads with days from the neighbouring months', () => {
+    // February 1, 2026 is a Sunday
+    const weeks = getCalendarWeeks(new Date(2026, 1, 1), 1);
+
+    expect(dayKeys(weeks)[0]).toEqual(['1/26', '1/27', '1/28', '1/29', '1/30', '1/31', '2/1']);
+    expect(weeks[0].map(day => day.inMonth)).toEqual([false, false, false, false, false, false, true]);
+    expect(getCalendarWeeks(new Date(2026, 1, 1), 0)[0][0].date.getDate()).toBe(1);
+  });
+
+  describe('across DST changes', () => {
+    const originalTZ = process.env.TZ;
+
+    afterAll(() => {
+      process.env.TZ = originalTZ;
+    });
+
+    it.each([
+      // DST starts at midnight, so Nov 4, 2018 00:00 does not exist
+      ['America/Sao_Paulo', 2018, 10],
+      ['America/New_York', 2026, 2],
+      ['Europe/London', 2026, 9],
+    ])('lists every day once in %s', (timeZone, year, month) => {
+      process.env.TZ = timeZone;
+      const days = getCalendarWeeks(new Date(year, month, 1), 0)
+        .flat()
+        .filter(day => day.inMonth)
+        .map(day => day.date.getDate());
+      const expected = Array.from({ length: new Date(year, month + 1, 0).getDate() }, (_, i) => i + 1);
+
+      expect(days).toEqual(expected);
+    });
+  });
+});
+
+describe('addMonths', () => {
+  it('clamps to the end of shorter months', () => {
+    const result = addMonths(new Date(2026, 0, 31), 1);
+    expect([result.getFullYear(), result.getMonth(), result.getDate()]).toEqual([2026, 1, 28]);
+
+    const leap = addMonths(new Date(2028, 0, 31), 1);
+    expect(leap.getDate()).toBe(29);
+  });
+
+  it('crosses year boundaries and keeps the time', () => {
+    const result = addMonths(new Date(2026, 0, 31, 14, 30), -2);
+    expect([result.getFullYear(), result.getMonth(), result.getDate()]).toEqual([2025, 10, 30]);
+    expect([result.getHours(), result.getMinutes()]).toEqual([14, 30]);
+  });
+});
+
+describe('getWeekStart', () => {
+  it('follows the locale', () => {
+    expect(getWeekStart('en-US')).toBe(0);
+    expect(getWeekStart('en-GB')).toBe(1);
+    expect(getWeekStart('ar-EG')).toBe(6);
+  });
+
+  it('falls back to region data without Intl.Locale', () => {
+    const IntlWithLocale = Intl as unknown as { Locale?: unknown };
+    const { Locale } = IntlWithLocale;
+    delete IntlWithLocale.Locale;
+    try {
+      expect(getWeekStart('en-US')).toBe(0);
+      expect(getWeekStart('en_GB')).toBe(1);
+      expect(getWeekStart('ar-EG')).toBe(6);
+      expect(getWeekStart('de')).toBe(1);
+    } finally {
+      IntlWithLocale.Locale = Locale;
+    }
+  });
+});
+
+describe('isDayDisabled', () => {
+  const min = new Date(2026, 1, 10, 15, 0);
+  const max = new Date(2026, 1, 20, 9, 0);
+
+  it('includes the min and max days regardless of time', () => {
+    expect(isDayDisabled(new Date(2026, 1, 10), min, max)).toBe(false);
+    expect(isDayDisabled(new Date(2026, 1, 20, 23, 59), min, max)).toBe(false);
+  });
+
+  it('disables days outside the range', () => {
+    expect(isDayDisabled(new Date(2026, 1, 9, 23, 59), min, max)).toBe(true);
+    expect(isDayDisabled(new Date(2026, 1, 21), min, max)).toBe(true);
+    expect(isDayDisabled(new Date(2000, 0, 1))).toBe(false);
+  });
+});
+
+describe('isMonthInRange', () => {
+  it('allows months with at least one day in range', () => {
+    const min = new Date(2026, 1, 28);
+    expect(isMonthInRange(new Date(2026, 1, 1), min)).toBe(true);
+    expect(isMonthInRange(new Date(2026, 0, 31), min)).toBe(false);
+  });
+});
+
+describe('clampDate', () => {
+  const min = new Date(2026, 1, 10, 15, 0);
+  const max = new Date(2026, 1, 20, 9, 0);
+
+  it('clamps to the exact min and max', () => {
+    expect(clampDate(new Date(2026, 1, 10, 14, 59), min, max).getTime()).toBe(min.getTime());
+    expect(clampDate(new Date(2026, 1, 20, 9, 1), min, max).getTime()).toBe(max.getTime());
+  });
+
+  it('keeps dates on the edges and inside the range', () => {
+    expect(clampDate(new Date(min.getTime()), min, max).getTime()).toBe(min.getTime());
+    expect(clampDate(new Date(max.getTime()), min, max).getTime()).toBe(max.getTime());
+    const inside = new Date(2026, 1, 15);
+    expect(clampDate(inside, min, max)).toBe(inside);
+  });
+
+  it('returns a copy, not the bound', () => {
+    expect(clampDate(new Date(2000, 0, 1), min, max)).not.toBe(min);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Calendar date math for AtomicDatePicker's `display="calendar"` mode
+ * Pure functions on local dates (no native modules), so they run anywhere
+ */
+
+/**
+ * Day of the week: 0 = Sunday ... 6 = Saturday (same as `Date#getDay`)
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * A cell in the month grid
+ */
+export interface CalendarDay {
+  date: Date;
+  /** False for leading/trailing days from the neighbouring months */
+  inMonth: boolean;
+}
+
+/** The grid always has 6 weeks so its height doesn't jump between months */
+export const CALENDAR_WEEKS = 6;
+
+// Regions whose week starts on Sunday or Saturday (CLDR week data); others start on Monday
+const SUNDAY_REGIONS = new Set([
+  'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU',
+  'HK', 'HN', 'ID', 'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX',
+  'MZ', 'NI', 'NP', 'PA', 'PE', 'PH', 'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW',
+  'UM', 'US', 'VE', 'VI', 'WS', 'YE', 'ZA', 'ZW',
+]);
+const SATURDAY_REGIONS = new Set([
+  'AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY',
+]);
+
+// Intl.Locale week info is newer than the TS lib typings (and missing on older engines)
+interface LocaleWithWeekInfo {
+  region?: string;
+  maximize?: () => LocaleWithWeekInfo;
+  getWeekInfo?: () => { firstDay: number };
+  weekInfo?: { firstDay: number };
+}
+
+/**
+ * First day of the week for a locale, e.g. Sunday for en-US, Monday for en-GB
+ * Uses Intl week info when available, then region data; defaults to Monday
+ */
+export const getWeekStart = (locale?: string): Weekday => {
+  const tag = locale ?? new Intl.DateTimeFormat().resolvedOptions().locale;
+  const IntlLocale = (Intl as unknown as { Locale?: new (tag: string) => LocaleWithWeekInfo }).Locale;
+
+  let region: string | undefined;
+  if (IntlLocale) {
+    try {
+      const intlLocale = new IntlLocale(tag);
+      const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+      // Intl uses 1 = Monday ... 7 = Sunday
+      if (weekInfo) return (weekInfo.firstDay % 7) as Weekday;
+      region = intlLocale.region ?? intlLocale.maximize?.().region;
+    } catch {
+      // Invalid tag: fall back to parsing it below
+    }
+  }
+
+  region = region ?? tag.split(/[-_]/).slice(1).find(part => /^[A-Za-z]{2}$/.test(part))?.toUpperCase();
+  if (region && SUNDAY_REGIONS.has(region)) return 0;
+  if (region && SATURDAY_REGIONS.has(region)) return 6;
+  return 1;
+};
+
+/**
+ * Midnight at the start of the given day
+ */
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * First day of the given date's month
+ */
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Number of days in a month (`month` is 0-based)
+ */
+export const getDaysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Add months, clamping the day so Jan 31 + 1 month is the last day of February
+ */
+export const addMonths = (date: Date, amount: number): Date => {
+  const target = new Date(date.getFullYear(), date.getMonth() + amount, 1);
+  const day = Math.min(date.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth()));
+  return new Date(
+    target.getFullYear(),
+    target.getMonth(),
+    day,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+};
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+export const isSameMonth = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+
+/**
+ * Whether a day falls outside the min/max range (compared by day, ignoring time)
+ */
+export const isDayDisabled = (date: Date, minimumDate?: Date, maximumDate?: Date): boolean => {
+  const day = startOfDay(date).getTime();
+  if (minimumDate && day < startOfDay(minimumDate).getTime()) return true;
+  if (maximumDate && day > startOfDay(maximumDate).getTime()) return true;
+  return false;
+};
+
+/**
+ * Whether any day of the month containing `date` is inside the min/max range
+ */
+export const isMonthInRange = (date: Date, minimumDate?: Date, maximumDate?: Date): boolean => {
+  const first = startOfMonth(date);
+  const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+  if (minimumDate && last.getTime() < startOfDay(minimumDate).getTime()) return false;
+  if (maximumDate && first.getTime() > startOfDay(maximumDate).getTime()) return false;
+  return true;
+};
+
+/**
+ * Clamp a date into the min/max range
+ */
+export const clampDate = (date: Date, minimumDate?: Date, maximumDate?: Date): Date => {
+  if (minimumDate && date.getTime() < minimumDate.getTime()) return new Date(minimumDate.getTime());
+  if (maximumDate && date.getTime() > maximumDate.getTime()) return new Date(maximumDate.getTime());
+  return date;
+};
+
+/**
+ * Weeks of the month containing `date`, padded with neighbouring days to full weeks
+ *
+ * @example
+ * ```ts
+ * getCalendarWeeks(new Date(2026, 1, 1), 1);
+ * // 6 rows of 7 days, starting Monday Jan 26, 2026
+ * ```
+ */
+export const getCalendarWeeks = (date: Date, weekStartsOn: Weekday = 1): CalendarDay[][] => {
+  const first = startOfMonth(date);
+  const offset = (first.getDay() - weekStartsOn + 7) % 7;
+  const weeks: CalendarDay[][] = [];
+
+  for (let week = 0; week < CALENDAR_WEEKS; week++) {
+    const days: CalendarDay[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      // Day arithmetic through the Date constructor stays correct across DST changes
+      const day = new Date(first.getFullYear(), first.getMonth(), 1 - offset + week * 7 + weekday);
+      days.push({ date: day, inMonth: day.getMonth() === first.getMonth() });
+    }
+    weeks.push(days);
+  }
+
+  return weeks;
+};
+
+/**
+ * Localized weekday names in grid order, e.g. ['M', 'T', 'W', ...] for `narrow`
+ */
+export const getWeekdayLabels = (
+  weekStartsOn: Weekday = 1,
+  locale?: string,
+  format: 'narrow' | 'short' | 'long' = 'narrow'
+): string[] => {
+  const formatter = new Intl.DateTimeFormat(locale, { weekday: format });
+  // Jan 4, 2026 is a Sunday
+  return Array.from({ length: 7 }, (_, index) =>
+    formatter.format(new Date(2026, 0, 4 + ((weekStartsOn + index) % 7)))
+  );
+};
+
+/**
+ * Localized month title, e.g. "February 2026"
+ */
+export const formatMonthTitle = (date: Date, locale?: string): string =>
+  new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }).format(date);
@@ -0,0 +1,41 @@
+import type React from 'react';
+
+/**
+ * Subset of @react-native-community/datetimepicker's change event used here
+ */
+export interface NativeDateTimePickerEvent {
+  type: 'set' | 'dismissed' | 'neutralButtonPressed';
+}
+
+/**
+ * Subset of @react-native-community/datetimepicker's props used by AtomicDatePicker
+ */
+export interface NativeDateTimePickerProps {
+  value: Date;
+  mode?: 'date' | 'time' | 'datetime';
+  display?: 'default' | 'spinner';
+  onChange: (event: NativeDateTimePickerEvent, date?: Date) => void;
+  minimumDate?: Date;
+  maximumDate?: Date;
+  testID?: string;
+}
+
+let nativePicker: React.ComponentType<NativeDateTimePickerProps> | null | undefined;
+
+/**
+ * Load the native date picker on first use
+ *
+ * The optional peer is required lazily (inside try/catch, which Metro treats as an
+ * optional dependency) so the calendar display works without it, including in Jest.
+ * Returns null when the package is not installed.
+ */
+export const loadNativeDateTimePicker = (): React.ComponentType<NativeDateTimePickerProps> | null => {
+  if (nativePicker === undefined) {
+    try {
+      nativePicker = require('@react-native-community/datetimepicker').default ?? null;
+    } catch {
+      nativePicker = null;
+    }
+  }
+  return nativePicker ?? null;
+};
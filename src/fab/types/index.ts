@@ -1,4 +1,5 @@
 import { StyleProp, ViewStyle } from 'react-native';
+import type { IconName } from '../../AtomicIcon';
 
 /**
  * FAB (Floating Action Button) size variants
@@ -37,10 +38,10 @@ export interface FabSizeConfig {
 export interface AtomicFabProps {
   /**
    * Icon name to display (required)
-   * Any MaterialIcons name (see https://fonts.google.com/icons)
-   * Examples: 'add', 'edit', 'camera', etc.
+   * Any Lucide icon name (see https://lucide.dev/icons)
+   * Examples: 'Plus', 'Pencil', 'Camera', etc.
    */
-  icon: string;
+  icon: IconName;
 
   /**
    * Callback when FAB is pressed
@@ -30,3 +30,12 @@ export const getScrollContentContainerStyle = (): ViewStyle => ({
   alignItems: 'center',
   gap: 8,
 });
+
+/**
+ * Group header styles
+ * Label shown before each option group
+ */
+export const getGroupHeaderStyle = (): ViewStyle => ({
+  justifyContent: 'center',
+  marginLeft: 8,
+});
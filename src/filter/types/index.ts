@@ -1,4 +1,5 @@
 import { StyleProp, ViewStyle } from 'react-native';
+import type { IconName } from '../../AtomicIcon';
 
 /**
  * Filter option interface
@@ -24,7 +25,44 @@ export interface FilterOption {
   /**
    * Optional icon name to display
    */
-  icon?: string;
+  icon?: IconName;
+
+  /**
+   * Optional result count shown as a badge on the chip
+   */
+  count?: number;
+
+  /**
+   * Disable this option
+   */
+  disabled?: boolean;
+
+  /**
+   * ID of the FilterGroup this option belongs to
+   */
+  group?: string;
+}
+
+/**
+ * Filter group interface
+ * Groups options under a header with their own selection mode
+ */
+export interface FilterGroup {
+  /**
+   * Unique identifier referenced by FilterOption.group
+   */
+  id: string;
+
+  /**
+   * Header label (e.g. "Status", "Owner")
+   */
+  label: string;
+
+  /**
+   * Allow more than one selected option in this group
+   * @default false
+   */
+  multiSelect?: boolean;
 }
 
 /**
@@ -48,11 +86,28 @@ export interface AtomicFilterProps {
   onSelectionChange: (selectedIds: string[]) => void;
 
   /**
-   * Enable multi-select mode
+   * Option groups with headers; options reference them through `group`
+   */
+  groups?: FilterGroup[];
+
+  /**
+   * Enable multi-select mode for options without a group
    * @default true
    */
   multiSelect?: boolean;
 
+  /**
+   * Show at most this many chips; the rest collapse into a "More filters" chip
+   * that opens a multi-select picker
+   */
+  maxVisible?: number;
+
+  /**
+   * Label for the overflow chip and picker title
+   * @default 'More filters'
+   */
+  moreLabel?: string;
+
   /**
    * Show "Clear All" button when filters are active
    * @default true
@@ -0,0 +1,44 @@
+import { decodeQueryId, parseFilterIds, serializeFilterIds } from '../filterQuery';
+
+const TRICKY_IDS = ['active', 'a,b', '100%', 'a+b', 'with space', '-leading', 'café', '\u{1F600}', '?x=1&y=2#z'];
+
+describe('serializeFilterIds / parseFilterIds', () => {
+  it('round-trips distinct, non-empty IDs in order', () => {
+    expect(parseFilterIds(serializeFilterIds(TRICKY_IDS))).toEqual(TRICKY_IDS);
+    expect(parseFilterIds(serializeFilterIds([...TRICKY_IDS].reverse()))).toEqual([...TRICKY_IDS].reverse());
+  });
+
+  it('round-trips an empty selection', () => {
+    expect(serializeFilterIds([])).toBe('');
+    expect(parseFilterIds(serializeFilterIds([]))).toEqual([]);
+  });
+
+  it('escapes separators inside IDs', () => {
+    expect(serializeFilterIds(['a,b', 'c'])).toBe('a%2Cb,c');
+  });
+
+  it('drops duplicate and empty IDs, keeping the first occurrence', () => {
+    expect(serializeFilterIds(['a', 'a', '', 'b'])).toBe('a,a,,b');
+    expect(parseFilterIds(serializeFilterIds(['a', 'a', '', 'b']))).toEqual(['a', 'b']);
+    expect(parseFilterIds('b,a,b,,a')).toEqual(['b', 'a']);
+  });
+
+  it('drops malformed escapes and IDs missing from knownIds', () => {
+    expect(parseFilterIds('a,%E0%A4%A,b')).toEqual(['a', 'b']);
+    expect(parseFilterIds('active,pending,gone', ['active', 'pending'])).toEqual(['active', 'pending']);
+  });
+
+  it('returns no IDs for missing values', () => {
+    expect(parseFilterIds(undefined)).toEqual([]);
+    expect(parseFilterIds(null)).toEqual([]);
+    expect(parseFilterIds('')).toEqual([]);
+  });
+});
+
+describe('decodeQueryId', () => {
+  it('reads + as a space and returns null for malformed escapes', () => {
+    expect(decodeQueryId('with+space')).toBe('with space');
+    expect(decodeQueryId('a%2Bb')).toBe('a+b');
+    expect(decodeQueryId('%')).toBeNull();
+  });
+});
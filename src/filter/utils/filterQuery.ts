@@ -0,0 +1,57 @@
+/**
+ * Filter query serialization
+ * Converts AtomicFilter `selectedIds` to and from a query parameter value
+ * The round-trip is lossless for distinct, non-empty IDs; duplicate and empty IDs are dropped
+ *
+ * @example
+ * serializeFilterIds(['active', 'pending']); // 'active,pending'
+ * parseFilterIds('active,pending,gone', ['active', 'pending']); // ['active', 'pending']
+ */
+
+/**
+ * Separator between IDs in a serialized value
+ */
+export const FILTER_ID_SEPARATOR = ',';
+
+/**
+ * Encode a single ID so separators inside it survive the round-trip
+ */
+export const encodeQueryId = (id: string): string => encodeURIComponent(id);
+
+/**
+ * Decode a single ID, returning null for malformed escapes
+ * `+` is read as a space, matching form-encoded query strings
+ */
+export const decodeQueryId = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Serialize selected filter IDs (order is kept)
+ * Any ID survives parsing, including ones with separators, except duplicates and ''
+ */
+export const serializeFilterIds = (selectedIds: string[]): string =>
+  selectedIds.map(encodeQueryId).join(FILTER_ID_SEPARATOR);
+
+/**
+ * Parse a serialized filter value
+ * Drops empty, malformed and duplicate IDs, and IDs missing from `knownIds` when given
+ */
+export const parseFilterIds = (value: string | null | undefined, knownIds?: string[]): string[] => {
+  if (!value) return [];
+
+  const known = knownIds ? new Set(knownIds) : undefined;
+  const ids: string[] = [];
+
+  for (const part of value.split(FILTER_ID_SEPARATOR)) {
+    const id = decodeQueryId(part);
+    if (!id || ids.includes(id) || (known && !known.has(id))) continue;
+    ids.push(id);
+  }
+
+  return ids;
+};
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SortDirection } from '../sort/types';
+import { serializeFilterIds, parseFilterIds, decodeQueryId } from '../filter/utils/filterQuery';
+import { serializeSort, parseSort } from '../sort/utils/sortQuery';
+
+/**
+ * Filter and sort state carried in a query string
+ * (`selectedIds` for AtomicFilter, `selectedId`/`sortDirection` for AtomicSort)
+ */
+export interface ListQueryState {
+  selectedIds: string[];
+  selectedId: string | null;
+  sortDirection: SortDirection;
+}
+
+export interface ListQueryOptions {
+  /** Query parameter holding filter IDs (default: filter) */
+  filterParam?: string;
+  /** Query parameter holding the sort key (default: sort) */
+  sortParam?: string;
+  /** Known filter IDs; others are dropped when parsing */
+  filterIds?: string[];
+  /** Known sort IDs; others are dropped when parsing */
+  sortIds?: string[];
+}
+
+export interface SerializeListQueryOptions extends ListQueryOptions {
+  /** Existing query whose other parameters are kept */
+  baseQuery?: string;
+}
+
+const DEFAULT_FILTER_PARAM = 'filter';
+const DEFAULT_SORT_PARAM = 'sort';
+
+/**
+ * Split a query string (or full URL) into raw key/value pairs
+ */
+const getQueryPairs = (query: string): Array<[string, string]> => {
+  const start = query.indexOf('?');
+  const search = (start === -1 ? query : query.slice(start + 1)).split('#')[0];
+
+  return search
+    .split('&')
+    .filter(Boolean)
+    .map((pair): [string, string] => {
+      const index = pair.indexOf('=');
+      return index === -1 ? [pair, ''] : [pair.slice(0, index), pair.slice(index + 1)];
+    });
+};
+
+/**
+ * Parse list state from a query string such as `?filter=active,pending&sort=-date`
+ * Missing, malformed or unknown values fall back to no filters and no sort
+ */
+export const parseListQuery = (query: string, options: ListQueryOptions = {}): ListQueryState => {
+  const { filterParam = DEFAULT_FILTER_PARAM, sortParam = DEFAULT_SORT_PARAM, filterIds, sortIds } = options;
+
+  let filterValue: string | undefined;
+  let sortValue: string | undefined;
+  for (const [key, value] of getQueryPairs(query)) {
+    const name = decodeQueryId(key);
+    if (name === filterParam) filterValue = value;
+    if (name === sortParam) sortValue = value;
+  }
+
+  return {
+    selectedIds: parseFilterIds(filterValue, filterIds),
+    ...parseSort(sortValue, sortIds),
+  };
+};
+
+/**
+ * Serialize list state to a query string (with leading `?`, or '' when empty)
+ * Empty filters and a missing sort are omitted, so parsing the result gives the same state
+ */
+export const serializeListQuery = (state: ListQueryState, options: SerializeListQueryOptions = {}): string => {
+  const { filterParam = DEFAULT_FILTER_PARAM, sortParam = DEFAULT_SORT_PARAM, baseQuery } = options;
+
+  const pairs = (baseQuery ? getQueryPairs(baseQuery) : [])
+    .filter(([key]) => {
+      const name = decodeQueryId(key);
+      return name !== filterParam && name !== sortParam;
+    })
+    .map(([key, value]) => (value ? `${key}=${value}` : key));
+
+  const filterValue = serializeFilterIds(state.selectedIds);
+  const sortValue = serializeSort(state.selectedId, state.sortDirection);
+  if (filterValue) pairs.push(`${encodeURIComponent(filterParam)}=${filterValue}`);
+  if (sortValue) pairs.push(`${encodeURIComponent(sortParam)}=${sortValue}`);
+
+  return pairs.length > 0 ? `?${pairs.join('&')}` : '';
+};
+
+export interface UseListQueryStateOptions extends ListQueryOptions {
+  /** Current query string or URL (e.g. from the router or a deep link) */
+  query: string;
+  /** Called with the new query string when filter or sort state changes */
+  onQueryChange?: (query: string) => void;
+}
+
+/**
+ * Keep AtomicFilter/AtomicSort state in sync with a query string
+ *
+ * @example
+ * ```tsx
+ * const { filterProps, sortProps } = useListQueryState({
+ *   query: route.params.query,
+ *   onQueryChange: (query) => navigation.setParams({ query }),
+ * });
+ *
+ * <AtomicFilter options={filters} {...filterProps} />
+ * <AtomicSort options={sorts} {...sortProps} />
+ * ```
+ */
+export const useListQueryState = ({ query, onQueryChange, ...options }: UseListQueryStateOptions) => {
+  const [state, setState] = useState<ListQueryState>(() => parseListQuery(query, options));
+  const lastQuery = useRef(query);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const onQueryChangeRef = useRef(onQueryChange);
+  onQueryChangeRef.current = onQueryChange;
+  // Set by local changes; query updates from outside are not reported back
+  const hasLocalChange = useRef(false);
+
+  // Re-parse when a different query arrives from outside (e.g. a new deep link)
+  useEffect(() => {
+    if (query === lastQuery.current) return;
+    lastQuery.current = query;
+    setState(parseListQuery(query, optionsRef.current));
+  }, [query]);
+
+  // Report the query once local changes are committed, so changes made in the same tick are merged
+  useEffect(() => {
+    if (!hasLocalChange.current) return;
+    hasLocalChange.current = false;
+    const nextQuery = serializeListQuery(state, { ...optionsRef.current, baseQuery: lastQuery.current });
+    lastQuery.current = nextQuery;
+    onQueryChangeRef.current?.(nextQuery);
+  }, [state]);
+
+  const update = (change: Partial<ListQueryState>) => {
+    hasLocalChange.current = true;
+    setState(prev => ({ ...prev, ...change }));
+  };
+
+  const onSelectionChange = (selectedIds: string[]) => update({ selectedIds });
+  const onSortChange = (selectedId: string, sortDirection: SortDirection) =>
+    update({ selectedId, sortDirection });
+
+  return {
+    ...state,
+    query: serializeListQuery(state, { ...options, baseQuery: lastQuery.current }),
+    onSelectionChange,
+    onSortChange,
+    filterProps: { selectedIds: state.selectedIds, onSelectionChange },
+    sortProps: { selectedId: state.selectedId, sortDirection: state.sortDirection, onSortChange },
+  };
+};
@@ -0,0 +1,73 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { IconRegistry, IconSet } from '../types';
+import { defaultIconRegistry } from './iconRegistry';
+import { normalizeIconAlias } from './iconAliases';
+
+const IconRegistryContext = createContext<IconRegistry>(defaultIconRegistry);
+
+export interface IconRegistryProviderProps {
+  /** Icon sets keyed by prefix, merged over the parent registry */
+  iconSets?: Record<string, IconSet>;
+  /** Prefix of the set used for unprefixed names (default: inherited, `lucide` at the root) */
+  defaultSet?: string;
+  /** Extra name aliases (`{ trash: 'Trash2', logo: 'app:Logo' }`), merged over the built-in Material aliases */
+  aliases?: Record<string, string>;
+  children: React.ReactNode;
+}
+
+/**
+ * IconRegistryProvider - Registers extra icon sets for AtomicIcon
+ *
+ * Lucide stays registered as `lucide` and is the default set unless
+ * `defaultSet` says otherwise. Built-in Material aliases (`add` → `Plus`)
+ * can be extended with `aliases`. Nested providers extend their parent.
+ *
+ * @example
+ * ```tsx
+ * import { MaterialIcons, Ionicons } from '@expo/vector-icons';
+ *
+ * <IconRegistryProvider
+ *   iconSets={{
+ *     material: createGlyphIconSet(MaterialIcons),
+ *     ionicons: createGlyphIconSet(Ionicons),
+ *     app: { Logo: LogoSvg },
+ *   }}
+ *   aliases={{ logo: 'app:Logo' }}
+ * >
+ *   <AtomicIcon name="material:add" />
+ *   <AtomicIcon name="app:Logo" />
+ * </IconRegistryProvider>
+ * ```
+ */
+export const IconRegistryProvider: React.FC<IconRegistryProviderProps> = ({
+  iconSets,
+  defaultSet,
+  aliases,
+  children,
+}) => {
+  const parent = useContext(IconRegistryContext);
+
+  const registry = useMemo<IconRegistry>(() => {
+    const mergedAliases = { ...parent.aliases };
+    Object.entries(aliases ?? {}).forEach(([alias, target]) => {
+      mergedAliases[normalizeIconAlias(alias)] = target;
+    });
+
+    return {
+      sets: { ...parent.sets, ...iconSets },
+      defaultSet: defaultSet ?? parent.defaultSet,
+      aliases: mergedAliases,
+    };
+  }, [parent, iconSets, defaultSet, aliases]);
+
+  return (
+    <IconRegistryContext.Provider value={registry}>
+      {children}
+    </IconRegistryContext.Provider>
+  );
+};
+
+/**
+ * Access the nearest icon registry (Lucide only when no provider is mounted)
+ */
+export const useIconRegistry = (): IconRegistry => useContext(IconRegistryContext);
@@ -0,0 +1,151 @@
+import type { LucideIconName } from '../types';
+
+/**
+ * Built-in Material Icons → Lucide aliases
+ *
+ * Keys are kebab-case; snake_case Material names (`arrow_upward`)
+ * are normalized before lookup.
+ */
+export const MATERIAL_ICON_ALIASES = {
+  'add': 'Plus',
+  'remove': 'Minus',
+  'edit': 'Pencil',
+  'delete': 'Trash2',
+  'close': 'X',
+  'clear': 'X',
+  'check': 'Check',
+  'done': 'Check',
+  'check-circle': 'CircleCheck',
+  'cancel': 'CircleX',
+  'search': 'Search',
+  'home': 'House',
+  'settings': 'Settings',
+  'person': 'User',
+  'people': 'Users',
+  'group': 'Users',
+  'account-circle': 'CircleUser',
+  'menu': 'Menu',
+  'more-vert': 'EllipsisVertical',
+  'more-horiz': 'Ellipsis',
+  'arrow-back': 'ArrowLeft',
+  'arrow-forward': 'ArrowRight',
+  'arrow-upward': 'ArrowUp',
+  'arrow-downward': 'ArrowDown',
+  'chevron-left': 'ChevronLeft',
+  'chevron-right': 'ChevronRight',
+  'expand-more': 'ChevronDown',
+  'expand-less': 'ChevronUp',
+  'schedule': 'Clock',
+  'access-time': 'Clock',
+  'event': 'Calendar',
+  'calendar-today': 'Calendar',
+  'favorite': 'Heart',
+  'favorite-border': 'Heart',
+  'star': 'Star',
+  'star-border': 'Star',
+  'info': 'Info',
+  'warning': 'TriangleAlert',
+  'error': 'CircleAlert',
+  'help': 'CircleHelp',
+  'notifications': 'Bell',
+  'mail': 'Mail',
+  'email': 'Mail',
+  'phone': 'Phone',
+  'camera': 'Camera',
+  'photo-camera': 'Camera',
+  'image': 'Image',
+  'photo': 'Image',
+  'share': 'Share2',
+  'visibility': 'Eye',
+  'visibility-off': 'EyeOff',
+  'lock': 'Lock',
+  'lock-open': 'LockOpen',
+  'logout': 'LogOut',
+  'login': 'LogIn',
+  'refresh': 'RefreshCw',
+  'sort': 'ArrowUpDown',
+  'sort-by-alpha': 'ArrowDownAZ',
+  'filter-list': 'ListFilter',
+  'shopping-cart': 'ShoppingCart',
+  'location-on': 'MapPin',
+  'place': 'MapPin',
+  'download': 'Download',
+  'upload': 'Upload',
+  'attach-file': 'Paperclip',
+  'send': 'Send',
+  'content-copy': 'Copy',
+  'flag': 'Flag',
+  'cake': 'Cake',
+  'work': 'Briefcase',
+  'dashboard': 'LayoutDashboard',
+  'list': 'List',
+  'grid-view': 'LayoutGrid',
+  'play-arrow': 'Play',
+  'pause': 'Pause',
+  'stop': 'Square',
+  'bookmark': 'Bookmark',
+  'chat': 'MessageCircle',
+} as const satisfies Record<string, LucideIconName>;
+
+/**
+ * Built-in alias names accepted by AtomicIcon
+ */
+export type MaterialIconAlias = keyof typeof MATERIAL_ICON_ALIASES;
+
+/**
+ * Normalize an alias key: lowercase, snake_case → kebab-case
+ */
+export const normalizeIconAlias = (name: string): string =>
+  name.trim().toLowerCase().replace(/[_\s]+/g, '-');
+
+/**
+ * Convert a kebab/snake-case name to a Lucide PascalCase name
+ * (`arrow-up` → `ArrowUp`, `trash_2` → `Trash2`)
+ */
+export const toPascalCaseIconName = (name: string): string =>
+  name
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export const getEditDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Find the candidate closest to `name` by edit distance
+ * Comparison ignores case and separators; returns undefined when nothing is close
+ */
+export const findClosestIconName = (name: string, candidates: string[]): string | undefined => {
+  const simplify = (value: string) => value.toLowerCase().replace(/[-_:\s]/g, '');
+  const target = simplify(name);
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = getEditDistance(target, simplify(candidate));
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closestDistance <= maxDistance ? closest : undefined;
+};
@@ -0,0 +1,159 @@
+import React from 'react';
+import * as LucideIcons from 'lucide-react-native';
+import { IconComponent, IconRegistry, IconSet, GlyphIconFont, IconComponentProps } from '../types';
+import {
+  MATERIAL_ICON_ALIASES,
+  normalizeIconAlias,
+  toPascalCaseIconName,
+  findClosestIconName,
+} from './iconAliases';
+
+/**
+ * Prefix of the built-in Lucide icon set
+ */
+export const LUCIDE_ICON_SET = 'lucide';
+
+/**
+ * Separator between an icon set prefix and the icon name (`material:add`)
+ */
+export const ICON_SET_SEPARATOR = ':';
+
+/**
+ * Whether a lucide-react-native export is an icon component
+ * Skips helpers (`createLucideIcon`, `useLucideContext`), the generic `Icon`,
+ * `Lucide*` exports and the `*Icon`/`Lucide*` alias spellings of every icon
+ */
+const isLucideIconExport = (name: string, value: unknown): value is IconComponent =>
+  /^[A-Z]/.test(name) &&
+  !name.endsWith('Icon') &&
+  !name.startsWith('Lucide') &&
+  (typeof value === 'function' || (typeof value === 'object' && value !== null && '$$typeof' in value));
+
+/**
+ * Build the Lucide set from the package's named exports, including plain aliases like `Home`
+ * (the `icons` namespace export is gone in lucide-react-native 1.x)
+ */
+const createLucideIconSet = (): Record<string, IconComponent> => {
+  const set: Record<string, IconComponent> = {};
+  for (const [name, value] of Object.entries(LucideIcons)) {
+    if (isLucideIconExport(name, value)) {
+      set[name] = value;
+    }
+  }
+  return set;
+};
+
+/**
+ * Built-in Lucide icon set (PascalCase names, including Lucide's own aliases)
+ */
+export const lucideIconSet: IconSet = createLucideIconSet();
+
+/**
+ * Default registry used when no IconRegistryProvider is mounted
+ */
+export const defaultIconRegistry: IconRegistry = {
+  sets: { [LUCIDE_ICON_SET]: lucideIconSet },
+  defaultSet: LUCIDE_ICON_SET,
+  aliases: { ...MATERIAL_ICON_ALIASES },
+};
+
+/**
+ * Look up a name in a single icon set
+ */
+const resolveInSet = (set: IconSet | undefined, name: string): IconComponent | undefined => {
+  if (!set) return undefined;
+  if (typeof set === 'function') return set(name);
+  return Object.prototype.hasOwnProperty.call(set, name) ? set[name] : undefined;
+};
+
+/**
+ * Split `prefix:name` into its set prefix and icon name
+ * Returns no prefix when the name has none or the prefix is not registered
+ */
+export const parseIconName = (
+  registry: IconRegistry,
+  name: string
+): { set: string; icon: string } => {
+  const separatorIndex = name.indexOf(ICON_SET_SEPARATOR);
+  if (separatorIndex > 0) {
+    const prefix = name.slice(0, separatorIndex);
+    if (registry.sets[prefix]) {
+      return { set: prefix, icon: name.slice(separatorIndex + 1) };
+    }
+  }
+  return { set: registry.defaultSet, icon: name };
+};
+
+/**
+ * Resolve a name without alias lookup
+ * Lucide also accepts kebab/snake-case spellings of its PascalCase names
+ */
+const resolveExact = (registry: IconRegistry, name: string): IconComponent | undefined => {
+  const { set, icon } = parseIconName(registry, name);
+  const component = resolveInSet(registry.sets[set], icon);
+  if (component || set !== LUCIDE_ICON_SET) return component;
+  return resolveInSet(registry.sets[set], toPascalCaseIconName(icon));
+};
+
+/**
+ * Resolve an icon name against the registry
+ * - `prefix:name` resolves in the set registered under `prefix`
+ * - Unprefixed names resolve in the default set
+ * - Names that don't resolve are looked up in the alias map (`add` → `Plus`)
+ */
+export const resolveIcon = (registry: IconRegistry, name: string): IconComponent | undefined => {
+  const component = resolveExact(registry, name);
+  if (component) return component;
+
+  const alias = registry.aliases[normalizeIconAlias(name)];
+  return alias ? resolveExact(registry, alias) : undefined;
+};
+
+/**
+ * Suggest the closest valid icon name for an unresolved name (development warnings)
+ * Only icon sets given as maps can be searched; resolver functions are skipped
+ */
+export const getIconSuggestion = (registry: IconRegistry, name: string): string | undefined => {
+  const { set, icon } = parseIconName(registry, name);
+  const iconSet = registry.sets[set];
+  const isDefaultSet = set === registry.defaultSet && icon === name;
+
+  let candidates: string[] = [];
+  if (set === LUCIDE_ICON_SET) {
+    candidates = Object.keys(lucideIconSet);
+  } else if (iconSet && typeof iconSet !== 'function') {
+    candidates = Object.keys(iconSet);
+  }
+  if (isDefaultSet) {
+    candidates = candidates.concat(Object.keys(registry.aliases));
+  }
+
+  const closest = findClosestIconName(icon, candidates);
+  if (!closest) return undefined;
+  return isDefaultSet ? closest : `${set}${ICON_SET_SEPARATOR}${closest}`;
+};
+
+/**
+ * Create an icon set from an icon font with a glyph map,
+ * e.g. `createGlyphIconSet(MaterialIcons)` from @expo/vector-icons
+ */
+export const createGlyphIconSet = (Font: GlyphIconFont): IconSet => {
+  // Cache one component per glyph so icons don't remount on every render
+  const cache = new Map<string, IconComponent>();
+
+  return (name: string) => {
+    if (Font.glyphMap && !Object.prototype.hasOwnProperty.call(Font.glyphMap, name)) {
+      return undefined;
+    }
+
+    let component = cache.get(name);
+    if (!component) {
+      const GlyphIcon = ({ size, color, style }: IconComponentProps) =>
+        React.createElement(Font, { name, size, color, style });
+      GlyphIcon.displayName = `GlyphIcon(${name})`;
+      component = GlyphIcon;
+      cache.set(name, component);
+    }
+    return component;
+  };
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { StyleProp, ViewStyle } from 'react-native';
+import type * as LucideIcons from 'lucide-react-native';
+
+type LucideExports = typeof LucideIcons;
+
+/**
+ * Lucide icon names (PascalCase), derived from the lucide-react-native icon exports
+ * (`*Icon` and `Lucide*` alias spellings left out, matching the built-in icon set)
+ */
+export type LucideIconName = Exclude<
+  { [K in keyof LucideExports]: LucideExports[K] extends LucideIcons.LucideIcon ? K : never }[keyof LucideExports],
+  `${string}Icon` | `Lucide${string}`
+>;
+
+/**
+ * Props every registered icon component receives from AtomicIcon
+ */
+export interface IconComponentProps {
+  size?: number;
+  color?: string;
+  strokeWidth?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Component rendered for a resolved icon name
+ */
+export type IconComponent = React.ComponentType<IconComponentProps>;
+
+/**
+ * Icon set - either a name → component map (e.g. app-specific SVGs)
+ * or a resolver function (e.g. an @expo/vector-icons font)
+ */
+export type IconSet =
+  | Record<string, IconComponent>
+  | ((name: string) => IconComponent | undefined);
+
+/**
+ * Icon registry - prefixed icon sets, name aliases and the set used for unprefixed names
+ */
+export interface IconRegistry {
+  /** Icon sets keyed by prefix (`material` resolves `material:add`) */
+  sets: Record<string, IconSet>;
+  /** Prefix of the set used for names without a prefix */
+  defaultSet: string;
+  /** Alias → icon name, tried when a name doesn't resolve directly (keys normalized to kebab-case) */
+  aliases: Record<string, string>;
+}
+
+/**
+ * Icon font component with a glyph map, e.g. `MaterialIcons` from @expo/vector-icons
+ */
+export type GlyphIconFont = React.ComponentType<{
+  name: string;
+  size?: number;
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+}> & {
+  glyphMap?: Record<string, number | string>;
+};
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { PlaceholderHashType } from '../types';
+import { decodePlaceholderHash, getPixelColor } from '../utils/placeholderHash';
+
+export interface HashPlaceholderProps {
+  /** Blurhash or base64 thumbhash string */
+  hash: string;
+  /** Hash format */
+  type?: PlaceholderHashType;
+  /** Width / height ratio of the area being covered (blurhash only) */
+  aspectRatio?: number;
+  /** Style overrides */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * HashPlaceholder - Renders a decoded placeholder hash as a small grid of color cells
+ * Fills its parent; renders nothing for invalid hashes
+ */
+export const HashPlaceholder: React.FC<HashPlaceholderProps> = ({
+  hash,
+  type = 'blurhash',
+  aspectRatio = 1,
+  style,
+}) => {
+  const grid = useMemo(
+    () => decodePlaceholderHash(hash, type, aspectRatio),
+    [hash, type, aspectRatio]
+  );
+
+  if (!grid) {
+    return null;
+  }
+
+  return (
+    <View style={[StyleSheet.absoluteFill, style]} pointerEvents="none">
+      {Array.from({ length: grid.height }, (_, y) => (
+        <View key={y} style={styles.row}>
+          {Array.from({ length: grid.width }, (_, x) => (
+            <View key={x} style={[styles.cell, { backgroundColor: getPixelColor(grid, x, y) }]} />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  cell: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,13 @@
+/**
+ * Decoded placeholder image - row-major RGBA bytes
+ */
+export interface PixelGrid {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * Placeholder hash formats supported by `placeholderHash`
+ */
+export type PlaceholderHashType = 'blurhash' | 'thumbhash';
@@ -0,0 +1,41 @@
+import { decodeBlurhash, isValidBlurhash } from '../blurhash';
+
+// Reference output of the woltapp/blurhash decoder for a 4x3 grid
+const HASH = 'LEHV6nWB2yk8pyo0adR*.7kCMdnj';
+const EXPECTED_PIXELS = [
+  135, 164, 177, 255, 161, 173, 177, 255, 181, 180, 171, 255, 160, 172, 174, 255,
+  124, 154, 169, 255, 148, 148, 154, 255, 164, 145, 134, 255, 146, 152, 155, 255,
+  124, 144, 154, 255, 144, 134, 132, 255, 163, 130, 104, 255, 148, 140, 134, 255,
+];
+
+describe('decodeBlurhash', () => {
+  it('decodes a known hash to the reference pixels', () => {
+    const grid = decodeBlurhash(HASH, 4, 3);
+
+    expect(grid).not.toBeNull();
+    expect(grid!.width).toBe(4);
+    expect(grid!.height).toBe(3);
+    expect(Array.from(grid!.pixels)).toEqual(EXPECTED_PIXELS);
+  });
+
+  it('returns null for invalid hashes', () => {
+    expect(decodeBlurhash('', 4, 3)).toBeNull();
+    expect(decodeBlurhash('LEHV6', 4, 3)).toBeNull();
+    // Length doesn't match the component count
+    expect(decodeBlurhash(HASH.slice(0, -2), 4, 3)).toBeNull();
+    // Character outside the base83 alphabet
+    expect(decodeBlurhash(`${HASH.slice(0, -1)}"`, 4, 3)).toBeNull();
+  });
+
+  it('returns null for an empty grid', () => {
+    expect(decodeBlurhash(HASH, 0, 3)).toBeNull();
+    expect(decodeBlurhash(HASH, 4, 0)).toBeNull();
+  });
+});
+
+describe('isValidBlurhash', () => {
+  it('checks structure', () => {
+    expect(isValidBlurhash(HASH)).toBe(true);
+    expect(isValidBlurhash('not a hash')).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { decodePlaceholderHash, getPixelColor, PLACEHOLDER_GRID_SIZE } from '../placeholderHash';
+import { decodeBlurhash } from '../blurhash';
+
+jest.mock('../blurhash', () => {
+  const actual = jest.requireActual('../blurhash');
+  return { ...actual, decodeBlurhash: jest.fn(actual.decodeBlurhash) };
+});
+
+const BLURHASH = 'LEHV6nWB2yk8pyo0adR*.7kCMdnj';
+const THUMBHASH = 'HwcKZZh0d3dwiHiHiHiIh3CECPeI';
+
+describe('decodePlaceholderHash', () => {
+  beforeEach(() => {
+    (decodeBlurhash as jest.Mock).mockClear();
+  });
+
+  it('sizes blurhash grids from the aspect ratio', () => {
+    const landscape = decodePlaceholderHash(BLURHASH, 'blurhash', 2)!;
+    expect([landscape.width, landscape.height]).toEqual([PLACEHOLDER_GRID_SIZE, PLACEHOLDER_GRID_SIZE / 2]);
+
+    const portrait = decodePlaceholderHash(BLURHASH, 'blurhash', 0.5)!;
+    expect([portrait.width, portrait.height]).toEqual([PLACEHOLDER_GRID_SIZE / 2, PLACEHOLDER_GRID_SIZE]);
+  });
+
+  it('decodes thumbhashes with their own aspect ratio', () => {
+    const grid = decodePlaceholderHash(THUMBHASH, 'thumbhash', 0.5)!;
+    expect([grid.width, grid.height]).toEqual([PLACEHOLDER_GRID_SIZE, 6]);
+  });
+
+  it('memoizes per hash', () => {
+    const first = decodePlaceholderHash(BLURHASH, 'blurhash', 1.5);
+    const second = decodePlaceholderHash(BLURHASH, 'blurhash', 1.5);
+
+    expect(second).toBe(first);
+    expect(decodeBlurhash).toHaveBeenCalledTimes(1);
+
+    // A different aspect ratio is a different grid
+    decodePlaceholderHash(BLURHASH, 'blurhash', 0.75);
+    expect(decodeBlurhash).toHaveBeenCalledTimes(2);
+  });
+
+  it('memoizes invalid hashes as null', () => {
+    expect(decodePlaceholderHash('invalid-hash')).toBeNull();
+    expect(decodePlaceholderHash('invalid-hash')).toBeNull();
+    expect(decodeBlurhash).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getPixelColor', () => {
+  it('formats a pixel as rgba()', () => {
+    const grid = { width: 2, height: 1, pixels: new Uint8ClampedArray([0, 0, 0, 0, 10, 20, 30, 255]) };
+    expect(getPixelColor(grid, 1, 0)).toBe('rgba(10, 20, 30, 1)');
+  });
+});
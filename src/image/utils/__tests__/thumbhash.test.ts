@@ -0,0 +1,48 @@
+import { base64ToBytes, decodeThumbhash, thumbhashToAspectRatio } from '../thumbhash';
+
+// Encoded by evanw/thumbhash from a 40x30 gradient; pixels are the reference decoder's output
+const HASH = 'HwcKZZh0d3dwiHiHiHiIh3CECPeI';
+
+const getPixel = (pixels: Uint8ClampedArray, width: number, x: number, y: number) =>
+  Array.from(pixels.slice(4 * (x + y * width), 4 * (x + y * width) + 4));
+
+describe('decodeThumbhash', () => {
+  it('decodes size and aspect ratio', () => {
+    const bytes = base64ToBytes(HASH);
+
+    expect(bytes).not.toBeNull();
+    expect(thumbhashToAspectRatio(bytes!)).toBeCloseTo(1.4);
+
+    const grid = decodeThumbhash(HASH, 32);
+    expect(grid!.width).toBe(32);
+    expect(grid!.height).toBe(23);
+  });
+
+  it('decodes to the reference pixels', () => {
+    const grid = decodeThumbhash(HASH, 32)!;
+
+    expect(getPixel(grid.pixels, grid.width, 0, 0)).toEqual([17, 5, 209, 255]);
+    expect(getPixel(grid.pixels, grid.width, 31, 0)).toEqual([232, 0, 84, 255]);
+    expect(getPixel(grid.pixels, grid.width, 16, 11)).toEqual([125, 115, 143, 255]);
+    expect(getPixel(grid.pixels, grid.width, 0, 22)).toEqual([0, 223, 201, 255]);
+    expect(getPixel(grid.pixels, grid.width, 31, 22)).toEqual([219, 207, 55, 255]);
+  });
+
+  it('scales the longer side to maxSize', () => {
+    const grid = decodeThumbhash(HASH, 8)!;
+
+    expect(grid.width).toBe(8);
+    expect(grid.height).toBe(6);
+  });
+
+  it('accepts URL-safe base64 without padding', () => {
+    expect(decodeThumbhash(HASH.replace(/\+/g, '-').replace(/\//g, '_'), 8)).not.toBeNull();
+  });
+
+  it('returns null for invalid hashes', () => {
+    expect(decodeThumbhash('')).toBeNull();
+    expect(decodeThumbhash('abc')).toBeNull();
+    expect(decodeThumbhash('not base64!')).toBeNull();
+    expect(decodeThumbhash(HASH, 0)).toBeNull();
+  });
+});
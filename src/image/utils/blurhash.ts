@@ -0,0 +1,110 @@
+import { PixelGrid } from '../types';
+
+const BASE83_DIGITS =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+/**
+ * Decode a base83 string to an integer (-1 for invalid characters)
+ */
+const decode83 = (value: string): number => {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    const digit = BASE83_DIGITS.indexOf(value[i]);
+    if (digit === -1) return -1;
+    result = result * 83 + digit;
+  }
+  return result;
+};
+
+const sRGBToLinear = (value: number): number => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number): number => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exponent: number): number =>
+  Math.sign(value) * Math.pow(Math.abs(value), exponent);
+
+const decodeDC = (value: number): [number, number, number] => [
+  sRGBToLinear(value >> 16),
+  sRGBToLinear((value >> 8) & 255),
+  sRGBToLinear(value & 255),
+];
+
+const decodeAC = (value: number, maximumValue: number): [number, number, number] => [
+  signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+  signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+  signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+];
+
+/**
+ * Check that a string is a structurally valid blurhash
+ */
+export const isValidBlurhash = (hash: string): boolean => {
+  if (!hash || hash.length < 6) return false;
+  const sizeFlag = decode83(hash[0]);
+  if (sizeFlag < 0) return false;
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  const numX = (sizeFlag % 9) + 1;
+  return hash.length === 4 + 2 * numX * numY && decode83(hash) >= 0;
+};
+
+/**
+ * Decode a blurhash into a `width` x `height` RGBA pixel grid
+ * Returns null for invalid hashes
+ *
+ * @see https://github.com/woltapp/blurhash
+ */
+export const decodeBlurhash = (
+  hash: string,
+  width: number,
+  height: number,
+  punch: number = 1
+): PixelGrid | null => {
+  if (!isValidBlurhash(hash) || width <= 0 || height <= 0) return null;
+
+  const sizeFlag = decode83(hash[0]);
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  const numX = (sizeFlag % 9) + 1;
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+
+  const colors: [number, number, number][] = new Array(numX * numY);
+  colors[0] = decodeDC(decode83(hash.substring(2, 6)));
+  for (let i = 1; i < colors.length; i++) {
+    colors[i] = decodeAC(decode83(hash.substring(4 + i * 2, 6 + i * 2)), maximumValue * punch);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let j = 0; j < numY; j++) {
+        const basisY = Math.cos((Math.PI * y * j) / height);
+        for (let i = 0; i < numX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * basisY;
+          const color = colors[i + j * numX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+
+      const index = 4 * (x + y * width);
+      pixels[index] = linearToSRGB(r);
+      pixels[index + 1] = linearToSRGB(g);
+      pixels[index + 2] = linearToSRGB(b);
+      pixels[index + 3] = 255;
+    }
+  }
+
+  return { width, height, pixels };
+};
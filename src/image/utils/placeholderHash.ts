@@ -0,0 +1,55 @@
+import { PixelGrid, PlaceholderHashType } from '../types';
+import { decodeBlurhash } from './blurhash';
+import { decodeThumbhash } from './thumbhash';
+
+/**
+ * Longer side of a decoded placeholder grid, in pixels
+ * Kept small: every pixel is rendered as a view
+ */
+export const PLACEHOLDER_GRID_SIZE = 8;
+
+const MAX_CACHE_ENTRIES = 100;
+const cache = new Map<string, PixelGrid | null>();
+
+/**
+ * Decode a placeholder hash into a small pixel grid
+ * Results (including invalid hashes) are memoized per hash
+ */
+export const decodePlaceholderHash = (
+  hash: string,
+  type: PlaceholderHashType = 'blurhash',
+  aspectRatio: number = 1
+): PixelGrid | null => {
+  const key = `${type}:${aspectRatio.toFixed(2)}:${hash}`;
+  if (cache.has(key)) {
+    return cache.get(key) ?? null;
+  }
+
+  let grid: PixelGrid | null;
+  if (type === 'thumbhash') {
+    // Thumbhashes carry their own aspect ratio
+    grid = decodeThumbhash(hash, PLACEHOLDER_GRID_SIZE);
+  } else {
+    const width = aspectRatio >= 1 ? PLACEHOLDER_GRID_SIZE : Math.max(1, Math.round(PLACEHOLDER_GRID_SIZE * aspectRatio));
+    const height = aspectRatio >= 1 ? Math.max(1, Math.round(PLACEHOLDER_GRID_SIZE / aspectRatio)) : PLACEHOLDER_GRID_SIZE;
+    grid = decodeBlurhash(hash, width, height);
+  }
+
+  // Drop the oldest entry once the cache is full
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) cache.delete(oldestKey);
+  }
+  cache.set(key, grid);
+
+  return grid;
+};
+
+/**
+ * Convert one pixel of a grid to an `rgba()` color string
+ */
+export const getPixelColor = (grid: PixelGrid, x: number, y: number): string => {
+  const index = 4 * (x + y * grid.width);
+  const { pixels } = grid;
+  return `rgba(${pixels[index]}, ${pixels[index + 1]}, ${pixels[index + 2]}, ${pixels[index + 3] / 255})`;
+};
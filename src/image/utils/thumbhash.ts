@@ -0,0 +1,145 @@
+import { PixelGrid } from '../types';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode standard or URL-safe base64 (padding optional) into bytes
+ * Returns null for invalid input
+ */
+export const base64ToBytes = (value: string): Uint8Array | null => {
+  const clean = value.trim().replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (clean.length % 4 === 1) return null;
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < clean.length; i++) {
+    const digit = BASE64_ALPHABET.indexOf(clean[i]);
+    if (digit === -1) return null;
+    buffer = (buffer << 6) | digit;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 255;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Clamp a 0-1 channel value to a byte (truncating, like the reference decoder)
+ */
+const toByte = (value: number): number => Math.floor(Math.max(0, 255 * Math.min(1, value)));
+
+/**
+ * Approximate width / height ratio encoded in a thumbhash
+ */
+export const thumbhashToAspectRatio = (hash: Uint8Array): number => {
+  const header = hash[3];
+  const hasAlpha = hash[2] & 0x80;
+  const isLandscape = hash[4] & 0x80;
+  const lx = isLandscape ? (hasAlpha ? 5 : 7) : header & 7;
+  const ly = isLandscape ? header & 7 : hasAlpha ? 5 : 7;
+  return lx / ly;
+};
+
+/**
+ * Decode a base64 thumbhash into an RGBA pixel grid whose longer side is `maxSize`
+ * Returns null for invalid hashes
+ *
+ * @see https://github.com/evanw/thumbhash
+ */
+export const decodeThumbhash = (value: string, maxSize: number = 32): PixelGrid | null => {
+  const hash = base64ToBytes(value);
+  if (!hash || hash.length < 5 || maxSize <= 0) return null;
+
+  const header24 = hash[0] | (hash[1] << 8) | (hash[2] << 16);
+  const header16 = hash[3] | (hash[4] << 8);
+  const lDC = (header24 & 63) / 63;
+  const pDC = ((header24 >> 6) & 63) / 31.5 - 1;
+  const qDC = ((header24 >> 12) & 63) / 31.5 - 1;
+  const lScale = ((header24 >> 18) & 31) / 31;
+  const hasAlpha = header24 >> 23;
+  const pScale = ((header16 >> 3) & 63) / 63;
+  const qScale = ((header16 >> 9) & 63) / 63;
+  const isLandscape = header16 >> 15;
+  const lx = Math.max(3, isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7);
+  const ly = Math.max(3, isLandscape ? header16 & 7 : hasAlpha ? 5 : 7);
+  const aDC = hasAlpha ? (hash[5] & 15) / 15 : 1;
+  const aScale = (hash[5] >> 4) / 15;
+
+  // Read the varying factors (saturation boosted 1.25x to compensate for quantization)
+  const acStart = hasAlpha ? 6 : 5;
+  let acIndex = 0;
+  const decodeChannel = (nx: number, ny: number, scale: number): number[] => {
+    const ac: number[] = [];
+    for (let cy = 0; cy < ny; cy++) {
+      for (let cx = cy ? 0 : 1; cx * ny < nx * (ny - cy); cx++) {
+        const byte = hash[acStart + (acIndex >> 1)] ?? 0;
+        ac.push((((byte >> ((acIndex++ & 1) << 2)) & 15) / 7.5 - 1) * scale);
+      }
+    }
+    return ac;
+  };
+  const lAC = decodeChannel(lx, ly, lScale);
+  const pAC = decodeChannel(3, 3, pScale * 1.25);
+  const qAC = decodeChannel(3, 3, qScale * 1.25);
+  const aAC = hasAlpha ? decodeChannel(5, 5, aScale) : [];
+
+  const ratio = thumbhashToAspectRatio(hash);
+  const width = Math.max(1, Math.round(ratio > 1 ? maxSize : maxSize * ratio));
+  const height = Math.max(1, Math.round(ratio > 1 ? maxSize / ratio : maxSize));
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const fx: number[] = [];
+  const fy: number[] = [];
+
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      let l = lDC;
+      let p = pDC;
+      let q = qDC;
+      let a = aDC;
+
+      for (let cx = 0, n = Math.max(lx, hasAlpha ? 5 : 3); cx < n; cx++) {
+        fx[cx] = Math.cos((Math.PI / width) * (x + 0.5) * cx);
+      }
+      for (let cy = 0, n = Math.max(ly, hasAlpha ? 5 : 3); cy < n; cy++) {
+        fy[cy] = Math.cos((Math.PI / height) * (y + 0.5) * cy);
+      }
+
+      for (let cy = 0, j = 0; cy < ly; cy++) {
+        for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx * ly < lx * (ly - cy); cx++, j++) {
+          l += lAC[j] * fx[cx] * fy2;
+        }
+      }
+
+      for (let cy = 0, j = 0; cy < 3; cy++) {
+        for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx < 3 - cy; cx++, j++) {
+          const f = fx[cx] * fy2;
+          p += pAC[j] * f;
+          q += qAC[j] * f;
+        }
+      }
+
+      if (hasAlpha) {
+        for (let cy = 0, j = 0; cy < 5; cy++) {
+          for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx < 5 - cy; cx++, j++) {
+            a += aAC[j] * fx[cx] * fy2;
+          }
+        }
+      }
+
+      // LPQ → RGB
+      const b = l - (2 / 3) * p;
+      const r = (3 * l - b + q) / 2;
+      const g = r - q;
+      pixels[i] = toByte(r);
+      pixels[i + 1] = toByte(g);
+      pixels[i + 2] = toByte(b);
+      pixels[i + 3] = toByte(a);
+    }
+  }
+
+  return { width, height, pixels };
+};
@@ -19,8 +19,15 @@ import {
   type AtomicButtonProps,
   type ButtonVariant,
   type ButtonSize,
+  type ButtonIconPosition,
 } from './AtomicButton';
 
+import {
+  AtomicButtonGroup,
+  type AtomicButtonGroupProps,
+  type ButtonGroupSegment,
+} from './AtomicButtonGroup';
+
 import {
   AtomicText,
   type AtomicTextProps,
@@ -39,8 +46,18 @@ import {
   type AtomicInputVariant,
   type AtomicInputState,
   type AtomicInputSize,
+  type AtomicInputStyleState,
+  getInputSizeConfig,
+  getInputVariantStyle,
+  getInputTextColor,
 } from './AtomicInput';
 
+import {
+  AtomicChipInput,
+  type AtomicChipInputProps,
+  type ChipInputRejectReason,
+} from './AtomicChipInput';
+
 import {
   AtomicTextArea,
   type AtomicTextAreaProps,
@@ -55,21 +72,62 @@ import {
   type IconSize,
   type IconColor,
   type IconName,
+  type LucideIconName,
+  type MaterialIconAlias,
+  type PrefixedIconName,
+  type IconNameOptions,
 } from './AtomicIcon';
 
+import {
+  IconRegistryProvider,
+  useIconRegistry,
+  type IconRegistryProviderProps,
+} from './icon/registry/IconRegistryProvider';
+
+import {
+  createGlyphIconSet,
+  resolveIcon,
+  defaultIconRegistry,
+} from './icon/registry/iconRegistry';
+
+import { MATERIAL_ICON_ALIASES } from './icon/registry/iconAliases';
+
+import type {
+  IconSet,
+  IconRegistry,
+  IconComponent,
+  IconComponentProps,
+  GlyphIconFont,
+} from './icon/types';
+
 import {
   AtomicImage,
   type AtomicImageProps,
+  type AtomicImageSize,
+  type AtomicImageSizeVariant,
 } from './AtomicImage';
 
+import { decodeBlurhash, isValidBlurhash } from './image/utils/blurhash';
+import { decodeThumbhash } from './image/utils/thumbhash';
+import { decodePlaceholderHash } from './image/utils/placeholderHash';
+import type { PixelGrid, PlaceholderHashType } from './image/types';
+
 import {
   AtomicSwitch,
   type AtomicSwitchProps,
 } from './AtomicSwitch';
 
+import {
+  AtomicSkeleton,
+  type AtomicSkeletonProps,
+} from './AtomicSkeleton';
+
+import { useReduceMotion } from './hooks/useReduceMotion';
+
 import {
   AtomicBadge,
   type AtomicBadgeProps,
+  type BadgeAnchorPosition,
 } from './AtomicBadge';
 
 import {
@@ -80,8 +138,14 @@ import {
 import {
   AtomicAvatar,
   type AtomicAvatarProps,
+  type AvatarSource,
+  type AvatarStatus,
+  type AvatarOverlayPosition,
 } from './AtomicAvatar';
 
+import { getInitials, type GetInitialsOptions } from './avatar/utils/initials';
+import { getAvatarColors, getContrastRatio, getReadableTextColor } from './avatar/utils/avatarColors';
+
 import {
   AtomicChip,
   type AtomicChipProps,
@@ -101,6 +165,7 @@ import {
   AtomicAvatarGroup,
   type AtomicAvatarGroupProps,
   type AvatarData,
+  type AvatarGroupDirection,
 } from './AtomicAvatarGroup';
 
 import {
@@ -115,9 +180,11 @@ import {
   AtomicFilter,
   type AtomicFilterProps,
   type FilterOption,
+  type FilterGroup,
   getFilterContainerStyle,
   getClearAllContainerStyle,
   getScrollContentContainerStyle,
+  getGroupHeaderStyle,
 } from './AtomicFilter';
 
 import {
@@ -142,16 +209,38 @@ import {
   type AtomicPickerProps,
   type PickerOption,
   type PickerSize,
+  type PickerTriggerProps,
 } from './AtomicPicker';
 
 import {
   AtomicDatePicker,
   type AtomicDatePickerProps,
+  getWeekStart,
+  getCalendarWeeks,
+  getWeekdayLabels,
+  addMonths,
+  isDayDisabled,
+  type DatePickerDisplay,
+  type Weekday,
+  type CalendarDay,
 } from './AtomicDatePicker';
 
 import {
   AtomicSearchBar,
   type AtomicSearchBarProps,
+  type AtomicSearchBarRef,
+  createMemorySearchHistoryStorage,
+  memorySearchHistoryStorage,
+  highlightMatches,
+  extractSearchTokens,
+  formatSearchQuery,
+  formatSearchToken,
+  type SearchHistoryStorage,
+  type SearchSuggestionItem,
+  type SearchSuggestionKind,
+  type HighlightSegment,
+  type SearchToken,
+  type SearchQuery,
 } from './AtomicSearchBar';
 
 import {
@@ -159,18 +248,54 @@ import {
   type AtomicSortProps,
   type SortOption,
   type SortDirection,
+  type SortKey,
+  type AtomicSortSingleProps,
+  type AtomicSortMultiProps,
+  createComparator,
+  type SortAccessors,
+  type ComparatorOptions,
 } from './AtomicSort';
 
+import {
+  serializeFilterIds,
+  parseFilterIds,
+} from './filter/utils/filterQuery';
+
+import {
+  serializeSort,
+  parseSort,
+  serializeSortKeys,
+  parseSortKeys,
+  type SortQueryState,
+} from './sort/utils/sortQuery';
+
+import {
+  useListQueryState,
+  parseListQuery,
+  serializeListQuery,
+  type ListQueryState,
+  type ListQueryOptions,
+  type SerializeListQueryOptions,
+  type UseListQueryStateOptions,
+} from './hooks/useListQueryState';
+
 // STEP 2: Re-export all components (for named imports)
 export {
   AtomicButton,
   type AtomicButtonProps,
   type ButtonVariant,
   type ButtonSize,
+  type ButtonIconPosition,
 };
 
 // Helper types extracted from ButtonVariantConfig
 
+export {
+  AtomicButtonGroup,
+  type AtomicButtonGroupProps,
+  type ButtonGroupSegment,
+};
+
 export {
   AtomicText,
   type AtomicTextProps,
@@ -189,6 +314,16 @@ export {
   type AtomicInputVariant,
   type AtomicInputState,
   type AtomicInputSize,
+  type AtomicInputStyleState,
+  getInputSizeConfig,
+  getInputVariantStyle,
+  getInputTextColor,
+};
+
+export {
+  AtomicChipInput,
+  type AtomicChipInputProps,
+  type ChipInputRejectReason,
 };
 
 export {
@@ -205,11 +340,38 @@ export {
   type IconSize,
   type IconColor,
   type IconName,
+  type LucideIconName,
+  type MaterialIconAlias,
+  type PrefixedIconName,
+  type IconNameOptions,
+};
+
+export {
+  IconRegistryProvider,
+  useIconRegistry,
+  createGlyphIconSet,
+  resolveIcon,
+  defaultIconRegistry,
+  MATERIAL_ICON_ALIASES,
+  type IconRegistryProviderProps,
+  type IconSet,
+  type IconRegistry,
+  type IconComponent,
+  type IconComponentProps,
+  type GlyphIconFont,
 };
 
 export {
   AtomicImage,
   type AtomicImageProps,
+  type AtomicImageSize,
+  type AtomicImageSizeVariant,
+  decodeBlurhash,
+  isValidBlurhash,
+  decodeThumbhash,
+  decodePlaceholderHash,
+  type PixelGrid,
+  type PlaceholderHashType,
 };
 
 export {
@@ -217,9 +379,16 @@ export {
   type AtomicSwitchProps,
 };
 
+export {
+  AtomicSkeleton,
+  type AtomicSkeletonProps,
+  useReduceMotion,
+};
+
 export {
   AtomicBadge,
   type AtomicBadgeProps,
+  type BadgeAnchorPosition,
 };
 
 export {
@@ -230,6 +399,14 @@ export {
 export {
   AtomicAvatar,
   type AtomicAvatarProps,
+  type AvatarSource,
+  type AvatarStatus,
+  type AvatarOverlayPosition,
+  getInitials,
+  type GetInitialsOptions,
+  getAvatarColors,
+  getContrastRatio,
+  getReadableTextColor,
 };
 
 export {
@@ -251,6 +428,7 @@ export {
   AtomicAvatarGroup,
   type AtomicAvatarGroupProps,
   type AvatarData,
+  type AvatarGroupDirection,
 };
 
 export {
@@ -265,9 +443,11 @@ export {
   AtomicFilter,
   type AtomicFilterProps,
   type FilterOption,
+  type FilterGroup,
   getFilterContainerStyle,
   getClearAllContainerStyle,
   getScrollContentContainerStyle,
+  getGroupHeaderStyle,
 };
 
 export {
@@ -292,16 +472,38 @@ export {
   type AtomicPickerProps,
   type PickerOption,
   type PickerSize,
+  type PickerTriggerProps,
 };
 
 export {
   AtomicDatePicker,
   type AtomicDatePickerProps,
+  getWeekStart,
+  getCalendarWeeks,
+  getWeekdayLabels,
+  addMonths,
+  isDayDisabled,
+  type DatePickerDisplay,
+  type Weekday,
+  type CalendarDay,
 };
 
 export {
   AtomicSearchBar,
   type AtomicSearchBarProps,
+  type AtomicSearchBarRef,
+  createMemorySearchHistoryStorage,
+  memorySearchHistoryStorage,
+  highlightMatches,
+  extractSearchTokens,
+  formatSearchQuery,
+  formatSearchToken,
+  type SearchHistoryStorage,
+  type SearchSuggestionItem,
+  type SearchSuggestionKind,
+  type HighlightSegment,
+  type SearchToken,
+  type SearchQuery,
 };
 
 export {
@@ -309,6 +511,26 @@ export {
   type AtomicSortProps,
   type SortOption,
   type SortDirection,
+  type SortKey,
+  type AtomicSortSingleProps,
+  type AtomicSortMultiProps,
+  createComparator,
+  type SortAccessors,
+  type ComparatorOptions,
+  serializeFilterIds,
+  parseFilterIds,
+  serializeSort,
+  parseSort,
+  serializeSortKeys,
+  parseSortKeys,
+  type SortQueryState,
+  useListQueryState,
+  parseListQuery,
+  serializeListQuery,
+  type ListQueryState,
+  type ListQueryOptions,
+  type SerializeListQueryOptions,
+  type UseListQueryStateOptions,
 };
 
 /**
@@ -318,12 +540,15 @@ export {
 // All atomic component types
 export type AtomicComponentProps =
   | AtomicButtonProps
+  | AtomicButtonGroupProps
   | AtomicTextProps
   | AtomicCardProps
   | AtomicInputProps
+  | AtomicChipInputProps
   | AtomicIconProps
   | AtomicImageProps
   | AtomicSwitchProps
+  | AtomicSkeletonProps
   | AtomicBadgeProps
   | AtomicFormErrorProps
   | AtomicAvatarProps
@@ -427,13 +652,17 @@ export const AtomicUtils = {
 // STEP 3: Default export (now all components are available in scope)
 const defaultExport = {
   AtomicButton,
+  AtomicButtonGroup,
   AtomicText,
   AtomicCard,
   AtomicInput,
+  AtomicChipInput,
   AtomicTextArea,
   AtomicIcon,
+  IconRegistryProvider,
   AtomicImage,
   AtomicSwitch,
+  AtomicSkeleton,
   AtomicBadge,
   AtomicFormError,
   AtomicAvatar,
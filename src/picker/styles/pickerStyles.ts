@@ -190,18 +190,3 @@ export const getChipContainerStyles = (tokens: DesignTokens): ViewStyle => ({
   gap: tokens.spacing.xs,
   marginTop: tokens.spacing.xs,
 });
-
-export const getChipStyles = (tokens: DesignTokens): ViewStyle => ({
-  flexDirection: 'row',
-  alignItems: 'center',
-  backgroundColor: tokens.colors.primaryContainer,
-  paddingHorizontal: tokens.spacing.sm,
-  paddingVertical: tokens.spacing.xs,
-  borderRadius: tokens.borders.radius.sm,
-});
-
-export const getChipTextStyles = (tokens: DesignTokens): TextStyle => ({
-  ...tokens.typography.bodySmall,
-  color: tokens.colors.primary,
-  marginRight: tokens.spacing.xs,
-});
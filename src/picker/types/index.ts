@@ -1,16 +1,16 @@
 import { ViewStyle, TextStyle } from 'react-native';
-import { IconColor } from '../../AtomicIcon';
+import { IconColor, IconName } from '../../AtomicIcon';
 
 /**
  * Picker option item
  *
- * icon: Any MaterialIcons name
- * @see https://fonts.google.com/icons
+ * icon: Any Lucide icon name
+ * @see https://lucide.dev/icons
  */
 export interface PickerOption {
   label: string;
   value: string;
-  icon?: string; // MaterialIcons name
+  icon?: IconName; // Lucide icon name
   disabled?: boolean;
   description?: string;
   testID?: string;
@@ -18,6 +18,20 @@ export interface PickerOption {
 
 export type PickerSize = 'sm' | 'md' | 'lg';
 
+/**
+ * Props passed to a custom picker trigger
+ */
+export interface PickerTriggerProps {
+  /** Open the selection modal */
+  open: () => void;
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Currently selected options */
+  selectedOptions: PickerOption[];
+  /** Whether the picker is disabled */
+  disabled: boolean;
+}
+
 export interface AtomicPickerProps {
   value: string | string[];
   onChange: (value: string | string[]) => void;
@@ -36,5 +50,7 @@ export interface AtomicPickerProps {
   emptyMessage?: string;
   style?: ViewStyle | ViewStyle[];
   labelStyle?: TextStyle | TextStyle[];
+  /** Replace the default field (label, button, chips, error) with a custom trigger */
+  renderTrigger?: (trigger: PickerTriggerProps) => React.ReactNode;
   testID?: string;
 }
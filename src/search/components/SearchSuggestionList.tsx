@@ -0,0 +1,158 @@
+import React from 'react';
+import { View, Pressable, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { useAppDesignTokens } from '@umituz/react-native-design-system-theme';
+import { AtomicText } from '../../AtomicText';
+import { AtomicIcon } from '../../AtomicIcon';
+import { SearchSuggestionItem } from '../types';
+import { highlightMatches } from '../utils/highlightMatches';
+
+export interface SearchSuggestionListProps {
+  items: SearchSuggestionItem[];
+  /** Current query, highlighted in each row */
+  query: string;
+  /** Row selected with the keyboard (-1 for none) */
+  highlightedIndex: number;
+  onSelect: (item: SearchSuggestionItem) => void;
+  onRemove: (item: SearchSuggestionItem) => void;
+  onClearHistory: () => void;
+  clearHistoryText: string;
+  /** Called when a press starts, before the input blurs */
+  onInteractionStart: () => void;
+  /** Called when a press ends, whether or not it was completed */
+  onInteractionEnd: () => void;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+/**
+ * Dropdown of recent searches and suggestions under AtomicSearchBar
+ */
+export const SearchSuggestionList: React.FC<SearchSuggestionListProps> = ({
+  items,
+  query,
+  highlightedIndex,
+  onSelect,
+  onRemove,
+  onClearHistory,
+  clearHistoryText,
+  onInteractionStart,
+  onInteractionEnd,
+  style,
+  testID,
+}) => {
+  const tokens = useAppDesignTokens();
+  const hasRecent = items.some(item => item.kind === 'recent');
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: tokens.colors.surface,
+          borderColor: tokens.colors.border,
+          borderRadius: tokens.borders.radius.md,
+          marginTop: tokens.spacing.xs,
+          paddingVertical: tokens.spacing.xs,
+        },
+        style,
+      ]}
+      accessibilityRole="list"
+      testID={testID}
+    >
+      {items.map((item, index) => {
+        const isHighlighted = index === highlightedIndex;
+
+        return (
+          <Pressable
+            key={`${item.kind}-${item.text}`}
+            onPressIn={onInteractionStart}
+            onPressOut={onInteractionEnd}
+            onPress={() => onSelect(item)}
+            style={[
+              styles.row,
+              {
+                paddingHorizontal: tokens.spacing.md,
+                paddingVertical: tokens.spacing.sm,
+                gap: tokens.spacing.sm,
+                backgroundColor: isHighlighted ? tokens.colors.surfaceVariant : 'transparent',
+              },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={item.kind === 'recent' ? `Recent search, ${item.text}` : item.text}
+            accessibilityState={{ selected: isHighlighted }}
+            testID={testID ? `${testID}-item-${index}` : undefined}
+          >
+            <AtomicIcon
+              name={item.kind === 'recent' ? 'History' : 'Search'}
+              size="sm"
+              color="secondary"
+            />
+            <AtomicText
+              type="bodyMedium"
+              color={tokens.colors.textSecondary}
+              style={styles.label}
+              numberOfLines={1}
+            >
+              {highlightMatches(item.text, query).map((segment, segmentIndex) => (
+                <AtomicText
+                  key={segmentIndex}
+                  type="bodyMedium"
+                  color={segment.highlighted ? tokens.colors.textPrimary : tokens.colors.textSecondary}
+                  style={segment.highlighted ? { fontWeight: tokens.typography.semibold } : undefined}
+                >
+                  {segment.text}
+                </AtomicText>
+              ))}
+            </AtomicText>
+            {item.kind === 'recent' && (
+              <TouchableOpacity
+                onPressIn={onInteractionStart}
+                onPressOut={onInteractionEnd}
+                onPress={() => onRemove(item)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${item.text} from recent searches`}
+                testID={testID ? `${testID}-remove-${index}` : undefined}
+              >
+                <AtomicIcon name="X" size="xs" color="secondary" />
+              </TouchableOpacity>
+            )}
+          </Pressable>
+        );
+      })}
+
+      {hasRecent && (
+        <TouchableOpacity
+          onPressIn={onInteractionStart}
+          onPressOut={onInteractionEnd}
+          onPress={onClearHistory}
+          style={{
+            alignSelf: 'flex-end',
+            paddingHorizontal: tokens.spacing.md,
+            paddingVertical: tokens.spacing.sm,
+          }}
+          accessibilityRole="button"
+          testID={testID ? `${testID}-clear-history` : undefined}
+        >
+          <AtomicText type="labelMedium" color="primary">
+            {clearHistoryText}
+          </AtomicText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SearchHistoryStorage } from '../types';
+
+/**
+ * Recent searches backed by a storage adapter
+ * Queries are trimmed, de-duplicated (case-insensitive) and kept most recent first
+ */
+export const useSearchHistory = (
+  storage: SearchHistoryStorage,
+  key: string,
+  maxItems: number,
+  enabled: boolean = true
+) => {
+  const [history, setHistory] = useState<string[]>([]);
+  const historyRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let isMounted = true;
+
+    Promise.resolve(storage.load(key))
+      .then((queries) => {
+        if (!isMounted) return;
+        historyRef.current = queries.slice(0, maxItems);
+        setHistory(historyRef.current);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      isMounted = false;
+    };
+  }, [storage, key, maxItems, enabled]);
+
+  const update = useCallback(
+    (next: string[]) => {
+      historyRef.current = next;
+      setHistory(next);
+      Promise.resolve(storage.save(key, next)).catch(() => undefined);
+    },
+    [storage, key]
+  );
+
+  const add = useCallback(
+    (query: string) => {
+      const trimmed = query.trim();
+      if (!enabled || !trimmed) return;
+      const lower = trimmed.toLocaleLowerCase();
+      update(
+        [trimmed, ...historyRef.current.filter(item => item.toLocaleLowerCase() !== lower)].slice(0, maxItems)
+      );
+    },
+    [enabled, maxItems, update]
+  );
+
+  const remove = useCallback(
+    (query: string) => update(historyRef.current.filter(item => item !== query)),
+    [update]
+  );
+
+  const clear = useCallback(() => update([]), [update]);
+
+  return { history, add, remove, clear };
+};
@@ -0,0 +1,21 @@
+import { SearchHistoryStorage } from '../types';
+
+/**
+ * In-memory search history storage
+ * History lives for the app session and is shared by search bars using the same key
+ */
+export const createMemorySearchHistoryStorage = (): SearchHistoryStorage => {
+  const store = new Map<string, string[]>();
+
+  return {
+    load: (key) => store.get(key) ?? [],
+    save: (key, queries) => {
+      store.set(key, [...queries]);
+    },
+  };
+};
+
+/**
+ * Default storage used by AtomicSearchBar
+ */
+export const memorySearchHistoryStorage = createMemorySearchHistoryStorage();
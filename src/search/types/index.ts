@@ -0,0 +1,55 @@
+/**
+ * Storage adapter for recent searches
+ * Methods may be sync or async, so AsyncStorage-style stores plug in directly
+ *
+ * @example
+ * ```ts
+ * const asyncStorageHistory: SearchHistoryStorage = {
+ *   load: async (key) => JSON.parse((await AsyncStorage.getItem(key)) ?? '[]'),
+ *   save: (key, queries) => AsyncStorage.setItem(key, JSON.stringify(queries)),
+ * };
+ * ```
+ */
+export interface SearchHistoryStorage {
+  /** Load saved queries, most recent first */
+  load: (key: string) => string[] | Promise<string[]>;
+  /** Save queries, most recent first */
+  save: (key: string, queries: string[]) => void | Promise<void>;
+}
+
+/**
+ * Where a suggestion row comes from
+ */
+export type SearchSuggestionKind = 'recent' | 'suggestion';
+
+/**
+ * A row in the suggestion dropdown
+ */
+export interface SearchSuggestionItem {
+  kind: SearchSuggestionKind;
+  text: string;
+}
+
+/**
+ * A matched (or unmatched) part of a suggestion
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * A `key:value` scope parsed out of the search text, e.g. `status:open`
+ */
+export interface SearchToken {
+  key: string;
+  value: string;
+}
+
+/**
+ * Structured search: scope tokens plus the remaining free text
+ */
+export interface SearchQuery {
+  tokens: SearchToken[];
+  text: string;
+}
@@ -0,0 +1,29 @@
+import { HighlightSegment } from '../types';
+
+/**
+ * Split text into segments, marking every case-insensitive occurrence of `query`
+ *
+ * @example
+ * highlightMatches('react native', 'na'); // [{ text: 'react ', highlighted: false }, { text: 'na', highlighted: true }, { text: 'tive', highlighted: false }]
+ */
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return [{ text, highlighted: false }];
+
+  const haystack = text.toLocaleLowerCase();
+  // Lowercasing can change length (e.g. İ), so fall back to no highlight
+  if (haystack.length !== text.length) return [{ text, highlighted: false }];
+
+  const segments: HighlightSegment[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const match = haystack.indexOf(needle, index);
+    if (match === -1) break;
+    if (match > index) segments.push({ text: text.slice(index, match), highlighted: false });
+    segments.push({ text: text.slice(match, match + needle.length), highlighted: true });
+    index = match + needle.length;
+  }
+  if (index < text.length) segments.push({ text: text.slice(index), highlighted: false });
+
+  return segments;
+};
@@ -0,0 +1,52 @@
+import { SearchQuery, SearchToken } from '../types';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Move `key:value` words for known keys out of typed text
+ *
+ * Values may be quoted (`status:"in progress"`). Only words followed by whitespace
+ * are taken, so the word being typed stays editable; pass `complete` to also take
+ * the last word (e.g. on submit).
+ *
+ * @example
+ * ```ts
+ * extractSearchTokens('in:orders status:open late', ['in', 'status'])
+ * // { tokens: [{ key: 'in', value: 'orders' }, { key: 'status', value: 'open' }], text: 'late' }
+ * ```
+ */
+export const extractSearchTokens = (text: string, keys: string[], complete: boolean = false): SearchQuery => {
+  if (keys.length === 0) return { tokens: [], text };
+
+  const pattern = new RegExp(
+    `(^|\\s)(${keys.map(escapeRegExp).join('|')}):(?:"([^"]+)"|([^\\s"]+))(?=\\s|$)`,
+    'gi'
+  );
+  const tokens: SearchToken[] = [];
+
+  const remainder = text.replace(pattern, (match, leading: string, key: string, quoted?: string, plain?: string, offset?: number) => {
+    const end = (offset ?? 0) + match.length;
+    if (!complete && end === text.length) return match;
+
+    const canonicalKey = keys.find(known => known.toLocaleLowerCase() === key.toLocaleLowerCase()) ?? key;
+    tokens.push({ key: canonicalKey, value: quoted ?? plain ?? '' });
+    return leading;
+  });
+
+  return {
+    tokens,
+    text: tokens.length > 0 ? remainder.replace(/\s{2,}/g, ' ').trimStart() : text,
+  };
+};
+
+/**
+ * Format a token back to query syntax, quoting values that contain spaces
+ */
+export const formatSearchToken = (token: SearchToken): string =>
+  /\s/.test(token.value) ? `${token.key}:"${token.value}"` : `${token.key}:${token.value}`;
+
+/**
+ * Format tokens and free text as a single query string, e.g. `in:orders status:open late`
+ */
+export const formatSearchQuery = ({ tokens, text }: SearchQuery): string =>
+  [...tokens.map(formatSearchToken), text.trim()].filter(Boolean).join(' ');
@@ -0,0 +1,64 @@
+import { StyleProp, ViewStyle } from 'react-native';
+import type { IconName } from '../../AtomicIcon';
+
+/**
+ * Sort option interface
+ */
+export interface SortOption {
+  id: string;
+  label: string;
+  icon?: IconName;
+  /** Allowed directions (default: both); e.g. ['desc'] for a desc-only field */
+  directions?: SortDirection[];
+  /** Direction used when the option is first selected (default: first allowed direction) */
+  defaultDirection?: SortDirection;
+}
+
+/**
+ * Sort direction type
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A single sort key: option ID plus direction
+ */
+export interface SortKey {
+  id: string;
+  direction: SortDirection;
+}
+
+interface AtomicSortBaseProps {
+  options: SortOption[];
+  showDirectionToggle?: boolean;
+  variant?: 'outlined' | 'filled' | 'soft';
+  color?: 'primary' | 'secondary' | 'success' | 'warning' | 'error' | 'info';
+  size?: 'sm' | 'md' | 'lg';
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+/**
+ * Single sort: one active option at a time
+ */
+export interface AtomicSortSingleProps extends AtomicSortBaseProps {
+  multiSort?: false;
+  selectedId: string | null;
+  sortDirection: SortDirection;
+  onSortChange: (optionId: string, direction: SortDirection) => void;
+}
+
+/**
+ * Multi sort: several active options in priority order
+ */
+export interface AtomicSortMultiProps extends AtomicSortBaseProps {
+  multiSort: true;
+  /** Active sort keys, highest priority first */
+  sortKeys: SortKey[];
+  /** Called with the new sort keys */
+  onSortKeysChange: (sortKeys: SortKey[]) => void;
+}
+
+/**
+ * AtomicSort component props
+ */
+export type AtomicSortProps = AtomicSortSingleProps | AtomicSortMultiProps;
@@ -0,0 +1,89 @@
+import { createComparator } from '../comparator';
+
+interface Item {
+  id: number;
+  name?: string | null;
+  score?: number | null;
+  createdAt?: Date | null;
+  active?: boolean;
+}
+
+const accessors = {
+  name: (item: Item) => item.name,
+  score: (item: Item) => item.score,
+  date: (item: Item) => item.createdAt,
+  active: (item: Item) => item.active,
+};
+
+const sortIds = (items: Item[], comparator: (a: Item, b: Item) => number) =>
+  [...items].sort(comparator).map(item => item.id);
+
+describe('createComparator', () => {
+  it('sorts ascending and descending', () => {
+    const items: Item[] = [{ id: 1, score: 2 }, { id: 2, score: 10 }, { id: 3, score: -1 }];
+
+    expect(sortIds(items, createComparator([{ id: 'score', direction: 'asc' }], accessors))).toEqual([3, 1, 2]);
+    expect(sortIds(items, createComparator([{ id: 'score', direction: 'desc' }], accessors))).toEqual([2, 1, 3]);
+  });
+
+  it('applies keys in priority order, later keys breaking ties', () => {
+    const items: Item[] = [
+      { id: 1, name: 'b', score: 1 },
+      { id: 2, name: 'a', score: 2 },
+      { id: 3, name: 'a', score: 1 },
+      { id: 4, name: 'b', score: 2 },
+    ];
+
+    expect(
+      sortIds(items, createComparator([{ id: 'name', direction: 'asc' }, { id: 'score', direction: 'desc' }], accessors))
+    ).toEqual([2, 3, 4, 1]);
+    expect(
+      sortIds(items, createComparator([{ id: 'score', direction: 'asc' }, { id: 'name', direction: 'desc' }], accessors))
+    ).toEqual([1, 3, 4, 2]);
+  });
+
+  it('sorts null, undefined, NaN and invalid Dates last in both directions', () => {
+    const items: Item[] = [
+      { id: 1, score: null },
+      { id: 2, score: 5 },
+      { id: 3 },
+      { id: 4, score: Number.NaN },
+      { id: 5, score: 1 },
+    ];
+
+    expect(sortIds(items, createComparator([{ id: 'score', direction: 'asc' }], accessors))).toEqual([5, 2, 1, 3, 4]);
+    expect(sortIds(items, createComparator([{ id: 'score', direction: 'desc' }], accessors))).toEqual([2, 5, 1, 3, 4]);
+
+    const dates: Item[] = [{ id: 1, createdAt: new Date('invalid') }, { id: 2, createdAt: new Date(2026, 0, 1) }];
+    expect(sortIds(dates, createComparator([{ id: 'date', direction: 'desc' }], accessors))).toEqual([2, 1]);
+  });
+
+  it('treats empty values as equal so later keys decide', () => {
+    const items: Item[] = [{ id: 1, score: null, name: 'b' }, { id: 2, name: 'a' }];
+
+    expect(
+      sortIds(items, createComparator([{ id: 'score', direction: 'asc' }, { id: 'name', direction: 'asc' }], accessors))
+    ).toEqual([2, 1]);
+  });
+
+  it('compares strings naturally and case-insensitively, Dates and booleans by value', () => {
+    const names: Item[] = [{ id: 1, name: 'item 10' }, { id: 2, name: 'Item 2' }, { id: 3, name: 'item 1' }];
+    expect(sortIds(names, createComparator([{ id: 'name', direction: 'asc' }], accessors, { locale: 'en' }))).toEqual([
+      3, 2, 1,
+    ]);
+
+    const dates: Item[] = [{ id: 1, createdAt: new Date(2026, 5, 1) }, { id: 2, createdAt: new Date(2025, 0, 1) }];
+    expect(sortIds(dates, createComparator([{ id: 'date', direction: 'asc' }], accessors))).toEqual([2, 1]);
+
+    const flags: Item[] = [{ id: 1, active: true }, { id: 2, active: false }];
+    expect(sortIds(flags, createComparator([{ id: 'active', direction: 'asc' }], accessors))).toEqual([2, 1]);
+  });
+
+  it('accepts single-sort state and ignores keys without an accessor', () => {
+    const items: Item[] = [{ id: 1, score: 2 }, { id: 2, score: 1 }];
+
+    expect(sortIds(items, createComparator({ selectedId: 'score', sortDirection: 'asc' }, accessors))).toEqual([2, 1]);
+    expect(sortIds(items, createComparator({ selectedId: null, sortDirection: 'asc' }, accessors))).toEqual([1, 2]);
+    expect(sortIds(items, createComparator([{ id: 'missing', direction: 'desc' }], accessors))).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,60 @@
+import { SortKey } from '../../types';
+import { parseSort, parseSortKeys, serializeSort, serializeSortKeys } from '../sortQuery';
+
+describe('serializeSortKeys / parseSortKeys', () => {
+  it('round-trips keys in priority order with their directions', () => {
+    const keys: SortKey[] = [
+      { id: 'date', direction: 'desc' },
+      { id: 'a,b', direction: 'asc' },
+      { id: '-leading', direction: 'asc' },
+      { id: '-leading-desc', direction: 'desc' },
+      { id: '100% a+b', direction: 'desc' },
+    ];
+
+    expect(parseSortKeys(serializeSortKeys(keys))).toEqual(keys);
+  });
+
+  it('prefixes descending keys with - and escapes a leading - in IDs', () => {
+    expect(serializeSortKeys([{ id: 'date', direction: 'desc' }, { id: 'name', direction: 'asc' }])).toBe('-date,name');
+    expect(serializeSortKeys([{ id: '-x', direction: 'asc' }])).toBe('%2Dx');
+    expect(serializeSortKeys([{ id: '-x', direction: 'desc' }])).toBe('-%2Dx');
+  });
+
+  it('keeps the first key for a repeated ID and drops empty IDs', () => {
+    const keys: SortKey[] = [
+      { id: 'date', direction: 'desc' },
+      { id: '', direction: 'asc' },
+      { id: 'date', direction: 'asc' },
+      { id: 'name', direction: 'asc' },
+    ];
+
+    expect(parseSortKeys(serializeSortKeys(keys))).toEqual([
+      { id: 'date', direction: 'desc' },
+      { id: 'name', direction: 'asc' },
+    ]);
+  });
+
+  it('drops malformed escapes and IDs missing from knownIds', () => {
+    expect(parseSortKeys('-date,%,name,-gone', ['date', 'name'])).toEqual([
+      { id: 'date', direction: 'desc' },
+      { id: 'name', direction: 'asc' },
+    ]);
+  });
+});
+
+describe('serializeSort / parseSort', () => {
+  it('round-trips a selected sort', () => {
+    expect(parseSort(serializeSort('date', 'desc'))).toEqual({ selectedId: 'date', sortDirection: 'desc' });
+    expect(parseSort(serializeSort('name', 'asc'))).toEqual({ selectedId: 'name', sortDirection: 'asc' });
+  });
+
+  it('round-trips no selection', () => {
+    expect(serializeSort(null, 'desc')).toBe('');
+    expect(parseSort(serializeSort(null, 'asc'))).toEqual({ selectedId: null, sortDirection: 'asc' });
+  });
+
+  it('falls back to no selection for unknown IDs', () => {
+    expect(parseSort('-gone', ['date'])).toEqual({ selectedId: null, sortDirection: 'asc' });
+    expect(parseSort(undefined)).toEqual({ selectedId: null, sortDirection: 'asc' });
+  });
+});
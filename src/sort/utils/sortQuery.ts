@@ -0,0 +1,78 @@
+import { SortDirection, SortKey } from '../types';
+import { encodeQueryId, decodeQueryId } from '../../filter/utils/filterQuery';
+
+/**
+ * Sort query serialization
+ * A sort key is the option ID, prefixed with `-` when descending
+ * The round-trip is lossless for distinct, non-empty IDs; a repeated ID keeps its first key
+ *
+ * @example
+ * serializeSort('date', 'desc'); // '-date'
+ * parseSort('-date'); // { selectedId: 'date', sortDirection: 'desc' }
+ * serializeSortKeys([{ id: 'date', direction: 'desc' }, { id: 'name', direction: 'asc' }]); // '-date,name'
+ */
+
+const DESCENDING_PREFIX = '-';
+const SORT_KEY_SEPARATOR = ',';
+
+/**
+ * Single-sort state as used by AtomicSort
+ */
+export interface SortQueryState {
+  selectedId: string | null;
+  sortDirection: SortDirection;
+}
+
+/**
+ * Encode an ID; a leading `-` is escaped so it isn't read as descending
+ */
+const encodeSortId = (id: string): string => {
+  const encoded = encodeQueryId(id);
+  return encoded.startsWith(DESCENDING_PREFIX) ? `%2D${encoded.slice(1)}` : encoded;
+};
+
+/**
+ * Serialize sort keys in priority order
+ */
+export const serializeSortKeys = (keys: SortKey[]): string =>
+  keys
+    .map(key => `${key.direction === 'desc' ? DESCENDING_PREFIX : ''}${encodeSortId(key.id)}`)
+    .join(SORT_KEY_SEPARATOR);
+
+/**
+ * Parse serialized sort keys
+ * Drops empty, malformed and repeated IDs, and IDs missing from `knownIds` when given
+ */
+export const parseSortKeys = (value: string | null | undefined, knownIds?: string[]): SortKey[] => {
+  if (!value) return [];
+
+  const known = knownIds ? new Set(knownIds) : undefined;
+  const keys: SortKey[] = [];
+
+  for (const part of value.split(SORT_KEY_SEPARATOR)) {
+    const isDescending = part.startsWith(DESCENDING_PREFIX);
+    const id = decodeQueryId(isDescending ? part.slice(DESCENDING_PREFIX.length) : part);
+    if (!id || keys.some(key => key.id === id) || (known && !known.has(id))) continue;
+    keys.push({ id, direction: isDescending ? 'desc' : 'asc' });
+  }
+
+  return keys;
+};
+
+/**
+ * Serialize AtomicSort's `(selectedId, sortDirection)` pair
+ * Returns an empty string when nothing is selected
+ */
+export const serializeSort = (selectedId: string | null, sortDirection: SortDirection): string =>
+  selectedId ? serializeSortKeys([{ id: selectedId, direction: sortDirection }]) : '';
+
+/**
+ * Parse a serialized sort into AtomicSort's `(selectedId, sortDirection)` pair
+ * Unknown or missing values give `{ selectedId: null, sortDirection: 'asc' }`
+ */
+export const parseSort = (value: string | null | undefined, knownIds?: string[]): SortQueryState => {
+  const [first] = parseSortKeys(value, knownIds);
+  return first
+    ? { selectedId: first.id, sortDirection: first.direction }
+    : { selectedId: null, sortDirection: 'asc' };
+};